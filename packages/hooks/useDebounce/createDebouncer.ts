@@ -0,0 +1,283 @@
+import { realTimeScheduler } from '@reactutils/use-scheduler';
+import type { TaskHandle } from '@reactutils/use-scheduler';
+
+import type {
+  CallHistory,
+  DebounceStatus,
+  DebouncedState,
+  DynamicDelay,
+  Options,
+} from './types';
+
+function resolveDelay<A extends unknown[]>(
+  value: number | DynamicDelay<A> | undefined,
+  args: A,
+  history: CallHistory
+) {
+  return typeof value === 'function' ? value(args, history) : value;
+}
+
+function isPromiseLike<T>(value: unknown): value is PromiseLike<T> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as PromiseLike<T>).then === 'function'
+  );
+}
+
+/**
+ * Create a debounced function outside of React. It has the same behaviour and control
+ * functions as the one returned by `useDelayedFn`, so it can be shared with web workers,
+ * service layers or vanilla widgets.
+ *
+ * @example
+ *```ts
+ *import { createDebouncer } from '@reactutils/use-debounce';
+ *
+ *const save = createDebouncer((draft) => api.saveDraft(draft), {
+ *  delay: 500,
+ *  maxWait: 2000,
+ *});
+ *
+ *editor.on('change', () => save(editor.getValue()));
+ *window.addEventListener('beforeunload', save.flush);
+ *```
+ */
+export function createDebouncer<T extends (...args: any) => ReturnType<T>>(
+  func: T,
+  options?: Options<Parameters<T>>
+): DebouncedState<T> {
+  /* --------------------- Validate the provided function --------------------- */
+  if (typeof func !== 'function') {
+    throw new TypeError('Expected a function');
+  }
+
+  const settings = options || {};
+
+  /* ----------------------------- Extract options ---------------------------- */
+  const scheduler = settings.scheduler || realTimeScheduler;
+  const scheduling = settings.scheduling;
+  const leading = !!settings.leading;
+  const trailing = 'trailing' in settings ? !!settings.trailing : true; // Default: true
+
+  /* ----------- Track the timing and state of the debounce process ----------- */
+  let lastCallTime: number | null = null;
+  let lastInvokeTime = 0;
+  let timerId: TaskHandle | null = null;
+  let lastArgs: Parameters<T> | null = null;
+  let lastThis: unknown = null;
+  let result: ReturnType<T> | undefined;
+
+  /* ---------------- Resolve the delays again on every call ---------------- */
+  let shouldUseAnimationFrame = false;
+  let delay = 0;
+  let maxing = false;
+  let maxWait = 0;
+  let callCount = 0;
+
+  const resolveTiming = (args: Parameters<T>, time: number) => {
+    const history: CallHistory = {
+      callCount: timerId === null ? 1 : callCount + 1,
+      timeSinceLastCall:
+        lastCallTime === null ? undefined : time - lastCallTime,
+    };
+    const nextDelay = resolveDelay(settings.delay, args, history);
+    const nextMaxWait = resolveDelay(settings.maxWait, args, history);
+
+    callCount = history.callCount;
+    // Without a delay, wait for the next animation frame instead.
+    shouldUseAnimationFrame = !nextDelay && nextDelay !== 0;
+    delay = nextDelay ? +nextDelay : 0;
+    // A static `maxWait` turns maxing on even when it's `undefined`.
+    maxing =
+      typeof settings.maxWait === 'function'
+        ? nextMaxWait !== undefined
+        : 'maxWait' in settings;
+    maxWait = maxing ? Math.max(nextMaxWait ? +nextMaxWait : 0, delay) : 0;
+  };
+
+  /* ---------- Track the status and notify its listeners on change ---------- */
+  let status: DebounceStatus = 'idle';
+  let running: PromiseLike<unknown> | null = null;
+  let failed = false;
+  const listeners = new Set<(status: DebounceStatus) => void>();
+
+  const updateStatus = () => {
+    const nextStatus: DebounceStatus =
+      timerId !== null
+        ? 'pending'
+        : running
+        ? 'running'
+        : failed
+        ? 'error'
+        : 'idle';
+
+    if (nextStatus !== status) {
+      status = nextStatus;
+      listeners.forEach((listener) => listener(status));
+    }
+  };
+
+  /* ------ Follow the promise of an async invocation until it settles ------ */
+  const trackInvocation = (invocation: PromiseLike<unknown>) => {
+    const settle = (hasFailed: boolean) => {
+      if (running !== invocation) return;
+      running = null;
+      failed = hasFailed;
+      updateStatus();
+    };
+
+    running = invocation;
+    invocation.then(
+      () => settle(false),
+      () => settle(true)
+    );
+  };
+
+  const invokeFunc = (time: number) => {
+    const args = lastArgs;
+    const thisArg = lastThis;
+
+    lastArgs = lastThis = null;
+    lastInvokeTime = time;
+    running = null;
+
+    try {
+      result = func.apply(thisArg, args as any);
+    } catch (error) {
+      failed = true;
+      updateStatus();
+      throw error;
+    }
+
+    failed = false;
+    if (isPromiseLike(result)) {
+      trackInvocation(result);
+    }
+    updateStatus();
+
+    return result;
+  };
+
+  const startTimer = (pendingFunc: () => void, wait: number) => {
+    if (timerId !== null) scheduler.cancel(timerId);
+    timerId = scheduler.schedule(
+      pendingFunc,
+      wait,
+      scheduling || (shouldUseAnimationFrame ? 'animationFrame' : 'timeout')
+    );
+    updateStatus();
+  };
+
+  const shouldInvoke = (time: number) => {
+    const timeSinceLastCall = time - (lastCallTime || 0);
+    const timeSinceLastInvoke = time - lastInvokeTime;
+
+    return (
+      lastCallTime === null ||
+      timeSinceLastCall >= delay ||
+      timeSinceLastCall < 0 ||
+      (maxing && timeSinceLastInvoke >= maxWait)
+    );
+  };
+
+  const trailingEdge = (time: number) => {
+    timerId = null;
+
+    if (trailing && lastArgs) {
+      return invokeFunc(time);
+    }
+
+    lastArgs = lastThis = null;
+    updateStatus();
+    return result;
+  };
+
+  const remainingWait = (time: number) => {
+    const timeSinceLastCall = time - (lastCallTime || 0);
+    const timeSinceLastInvoke = time - lastInvokeTime;
+    const timeWaiting = delay - timeSinceLastCall;
+
+    return maxing
+      ? Math.min(timeWaiting, maxWait - timeSinceLastInvoke)
+      : timeWaiting;
+  };
+
+  const timerExpired = () => {
+    const time = scheduler.now();
+    if (shouldInvoke(time)) {
+      return trailingEdge(time);
+    }
+
+    startTimer(timerExpired, remainingWait(time));
+  };
+
+  const debounced = function (this: unknown, ...args: Parameters<T>) {
+    const time = scheduler.now();
+    const previousDelay = delay;
+    const previousMaxWait = maxWait;
+    resolveTiming(args, time);
+    const isInvoking = shouldInvoke(time);
+
+    lastArgs = args;
+    lastThis = this;
+    lastCallTime = time;
+
+    if (isInvoking) {
+      if (timerId === null) {
+        lastInvokeTime = time;
+        startTimer(timerExpired, delay);
+        return leading ? invokeFunc(time) : result;
+      }
+
+      if (maxing) {
+        startTimer(timerExpired, delay);
+        return invokeFunc(time);
+      }
+    }
+
+    if (timerId === null) {
+      startTimer(timerExpired, delay);
+    } else if (delay !== previousDelay || maxWait !== previousMaxWait) {
+      // The running timer may be due too late or too early for the new delays.
+      startTimer(timerExpired, remainingWait(time));
+    }
+
+    return result;
+  } as DebouncedState<T>;
+
+  /* ------------- Add control functions to the debounced function ------------ */
+  debounced.cancel = () => {
+    if (timerId !== null) {
+      scheduler.cancel(timerId);
+    }
+    lastInvokeTime = 0;
+    lastArgs = lastCallTime = lastThis = timerId = running = null;
+    failed = false;
+    updateStatus();
+  };
+
+  debounced.isPending = () => {
+    return timerId !== null;
+  };
+
+  debounced.flush = () => {
+    if (timerId === null) return result;
+
+    scheduler.cancel(timerId);
+    return trailingEdge(scheduler.now());
+  };
+
+  debounced.getStatus = () => {
+    return status;
+  };
+
+  debounced.subscribe = (listener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return debounced;
+}
@@ -1,8 +1,27 @@
 export { default } from './useDebounce';
 export { useDelayedFn } from './useDelayedFn';
+export { createDebouncer } from './createDebouncer';
+export { useDelayedAsyncFn } from './useDelayedAsyncFn';
+export { useDebouncedState } from './useDebouncedState';
+export { useDebounceStatus } from './useDebounceStatus';
+export { useKeyedDelayedFn } from './useKeyedDelayedFn';
+export { useThrottledFn } from './useThrottledFn';
+export { useThrottle } from './useThrottle';
 export type {
+  AsyncParameters,
+  CallHistory,
   CallOptions,
+  CommitMode,
   ControlFunctions,
+  DebounceStatus,
   DebouncedState,
+  DebouncedStateOptions,
+  DelayedAsyncState,
+  DynamicDelay,
+  FlushOptions,
+  KeyedDebouncedState,
+  KeyedOptions,
   Options,
+  StatusFunctions,
+  ThrottleOptions,
 } from './types';
@@ -11,7 +11,7 @@ export default [
         format: 'esm',
       },
     ],
-    external: ['react', 'react-dom'],
+    external: ['react', 'react-dom', '@reactutils/use-scheduler'],
     plugins: [
       nodeResolve(),
       typescript({
@@ -29,7 +29,7 @@ export default [
         format: 'cjs',
       },
     ],
-    external: ['react', 'react-dom'],
+    external: ['react', 'react-dom', '@reactutils/use-scheduler'],
     plugins: [
       nodeResolve(),
       typescript({
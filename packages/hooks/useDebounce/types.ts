@@ -1,3 +1,5 @@
+import type { Scheduler, SchedulingMode } from '@reactutils/use-scheduler';
+
 /**
  * Options that can be provided when making a function call.
  */
@@ -12,20 +14,98 @@ export interface CallOptions {
   trailing?: boolean;
 }
 
+/**
+ * What a dynamic delay knows about the calls made so far.
+ */
+export interface CallHistory {
+  /**
+   * The number of calls in the current burst, including this one. A burst starts with the
+   * first call made while nothing is pending.
+   */
+  callCount: number;
+  /**
+   * The time since the previous call, or `undefined` for the first call.
+   */
+  timeSinceLastCall?: number;
+}
+
+/**
+ * A delay that is resolved on every call from the call arguments and the call history.
+ * Returning `undefined` means no delay is set.
+ */
+export type DynamicDelay<A extends unknown[] = any[]> = (
+  args: A,
+  history: CallHistory
+) => number | undefined;
+
 /**
  * Additional options that can be extended from `CallOptions`. These options allow customizing
  * the behavior when invoking a function.
  */
-export interface Options extends CallOptions {
+export interface Options<A extends unknown[] = any[]> extends CallOptions {
   /**
    * The time the specified function is allowed to be delayed before it's invoked.
+   * Pass a function to compute it on every call.
    */
-  delay?: number;
+  delay?: number | DynamicDelay<A>;
 
   /**
    * The maximum time the specified function is allowed to be delayed before it's invoked.
+   * Pass a function to compute it on every call.
+   */
+  maxWait?: number | DynamicDelay<A>;
+
+  /**
+   * The scheduler used to read the time and start timers. Defaults to the closest
+   * `SchedulerProvider`, or to real time.
+   */
+  scheduler?: Scheduler;
+
+  /**
+   * How the timers wait for their turn. Defaults to `animationFrame` when there is no
+   * `delay`, and to `timeout` otherwise.
+   */
+  scheduling?: SchedulingMode;
+}
+
+/**
+ * Options that make sure pending calls of a debounced hook are not lost when the component
+ * unmounts or the page is hidden.
+ */
+export interface FlushOptions<T extends (...args: any) => ReturnType<T>> {
+  /**
+   * Invoke the pending call when the component unmounts instead of dropping it.
+   */
+  flushOnUnmount?: boolean;
+  /**
+   * Invoke the pending call when the page is hidden (`visibilitychange` or `pagehide`).
+   * Pass a function to hand the pending arguments to it instead, for example to send
+   * them with `navigator.sendBeacon` while the page is going away.
    */
-  maxWait?: number;
+  flushOnPageHide?: boolean | ((...args: Parameters<T>) => void);
+}
+
+/**
+ * Options for throttling a function. Throttling is debouncing where `maxWait` equals the
+ * interval, so the function runs at most once per `interval`.
+ */
+export interface ThrottleOptions extends CallOptions {
+  /**
+   * The minimum time between two invocations of the specified function.
+   */
+  interval?: number;
+
+  /**
+   * The scheduler used to read the time and start timers. Defaults to the closest
+   * `SchedulerProvider`, or to real time.
+   */
+  scheduler?: Scheduler;
+
+  /**
+   * How the timers wait for their turn. Defaults to `animationFrame` when there is no
+   * `interval`, and to `timeout` otherwise.
+   */
+  scheduling?: SchedulingMode;
 }
 
 /**
@@ -46,6 +126,30 @@ export interface ControlFunctions {
   isPending: () => boolean;
 }
 
+/**
+ * The status of a debounced function:
+ * - `pending`: an invocation is waiting for its timer.
+ * - `running`: the last invocation returned a promise that has not settled yet.
+ * - `error`: the last invocation threw or its promise rejected.
+ * - `idle`: none of the above.
+ */
+export type DebounceStatus = 'idle' | 'pending' | 'running' | 'error';
+
+/**
+ * Functions for observing the status of a debounced function.
+ */
+export interface StatusFunctions {
+  /**
+   * Get the current status of the debounced function.
+   */
+  getStatus: () => DebounceStatus;
+  /**
+   * Listen to status changes of the debounced function.
+   * @returns {() => void} A function that removes the listener.
+   */
+  subscribe: (listener: (status: DebounceStatus) => void) => () => void;
+}
+
 /**
  * Represents the state of a debounced function. When called, this function will invoke the
  * original function and return its result. Subsequent calls within the debouncing period
@@ -55,7 +159,8 @@ export interface ControlFunctions {
  * Ensure to handle this case in your code.
  */
 export interface DebouncedState<T extends (...args: any) => ReturnType<T>>
-  extends ControlFunctions {
+  extends ControlFunctions,
+    StatusFunctions {
   /**
    * Invoke the debounced function with the provided arguments.
    * @param {...Parameters<T>} args - The arguments to pass to the debounced function.
@@ -63,3 +168,98 @@ export interface DebouncedState<T extends (...args: any) => ReturnType<T>>
    */
   (...args: Parameters<T>): ReturnType<T> | undefined;
 }
+
+/**
+ * Represents the state of a debounced async function. Every call returns a promise that
+ * settles with the result of the invocation that eventually runs.
+ *
+ * **Note:** Calls made after an invocation has started are carried over to the next
+ * invocation, and pending calls reject with an `AbortError` on `cancel()` or unmount.
+ */
+export interface DelayedAsyncState<
+  T extends (signal: AbortSignal, ...args: any) => Promise<any>
+> extends ControlFunctions,
+    StatusFunctions {
+  /**
+   * Invoke the debounced async function with the provided arguments.
+   * @param {...AsyncParameters<T>} args - The arguments to pass after the `AbortSignal`.
+   * @returns {Promise} A promise for the result of the invocation that eventually runs.
+   */
+  (...args: AsyncParameters<T>): Promise<Awaited<ReturnType<T>>>;
+}
+
+/**
+ * The parameters of an async function, without its leading `AbortSignal`.
+ */
+export type AsyncParameters<T> = T extends (
+  signal: AbortSignal,
+  ...args: infer A
+) => any
+  ? A
+  : never;
+
+/**
+ * Options for debouncing a function separately for every key.
+ */
+export interface KeyedOptions<T extends (...args: any) => ReturnType<T>, K>
+  extends Options<Parameters<T>> {
+  /**
+   * Get the key a call belongs to. Calls with different keys are debounced independently.
+   */
+  getKey: (...args: Parameters<T>) => K;
+}
+
+/**
+ * Represents the state of a function that is debounced separately for every key. The
+ * control functions act on a single key when one is given, or on every key otherwise.
+ */
+export interface KeyedDebouncedState<
+  T extends (...args: any) => ReturnType<T>,
+  K
+> {
+  /**
+   * Invoke the debounced function for the key of the provided arguments.
+   * @param {...Parameters<T>} args - The arguments to pass to the debounced function.
+   * @returns {ReturnType<T> | undefined} The result of the last invocation for that key.
+   */
+  (...args: Parameters<T>): ReturnType<T> | undefined;
+  /**
+   * Cancel the pending invocation of a key, or of every key.
+   */
+  cancel: (key?: K) => void;
+  /**
+   * Immediately invoke the pending invocation of a key, or of every key.
+   */
+  flush: (key?: K) => void;
+  /**
+   * Check if a key, or any key, has a pending invocation.
+   */
+  isPending: (key?: K) => boolean;
+  /**
+   * Get the keys that have a pending invocation.
+   */
+  pendingKeys: () => K[];
+}
+
+/**
+ * How `useDebouncedState` commits the debounced value:
+ * - `sync`: a regular state update.
+ * - `transition`: a state update inside `startTransition` (React 18).
+ * - `deferred`: a regular state update, read through `useDeferredValue` (React 18).
+ */
+export type CommitMode = 'sync' | 'transition' | 'deferred';
+
+/**
+ * Options for `useDebouncedState`.
+ */
+export interface DebouncedStateOptions<T> extends Options<[value: T]> {
+  /**
+   * A comparator function that determines whether the timeout should be started.
+   */
+  equalityFn?: (left: T, right: T) => boolean;
+  /**
+   * How the debounced value is committed. Both React 18 modes fall back to `sync` on
+   * older React versions.
+   */
+  commitMode?: CommitMode;
+}
@@ -1,31 +1,10 @@
-import { useCallback, useRef, useState, Dispatch } from 'react';
+import { useCallback, useRef } from 'react';
+import type { Scheduler, SchedulingMode } from '@reactutils/use-scheduler';
 
 import { useDelayedFn } from './useDelayedFn';
-import type { DebouncedState } from './types';
-
-
-function isEqualValues<T>(left: T, right: T): boolean {
-  return left === right;
-}
-
-function normalizeStateUpdateValue<T>(value: T): T | (() => T) {
-  return typeof value === 'function' ? () => value : value;
-}
-
-function useOptimizedStateUpdater<T>(initialState: T): [T, Dispatch<T>] {
-  const [state, setState] = useState(
-    normalizeStateUpdateValue(initialState)
-  );
-
-  // Create a dispatch function that ensures callback functions are ignored.
-  const dispatchOptimizedStateUpdater = useCallback(
-    (value: T) => setState(normalizeStateUpdateValue(value)),
-    []
-  );
-
-  return [state, dispatchOptimizedStateUpdater];
-}
-
+import { useDebounceStatus } from './useDebounceStatus';
+import { isEqualValues, useOptimizedStateUpdater } from './utils';
+import type { DebounceStatus, DebouncedState } from './types';
 
 /**
  * @example
@@ -59,9 +38,12 @@ export default function useDebounce<T>(
     maxWait?: number;
     leading?: boolean;
     trailing?: boolean;
+    scheduler?: Scheduler;
+    scheduling?: SchedulingMode;
     equalityFn?: (left: T, right: T) => boolean;
+    trackStatus?: boolean;
   }
-): [T, DebouncedState<(value: T) => void>] {
+): [T, DebouncedState<(value: T) => void>, DebounceStatus] {
   const eq = (options && options.equalityFn) || isEqualValues;
 
   /* -- Get the initial state and a dispatch function that ignores callbacks. - */
@@ -82,5 +64,8 @@ export default function useDebounce<T>(
     previousValue.current = value;
   }
 
-  return [state, debounced];
+  /* ------- Re-render on status changes only when it has been asked for ------- */
+  const status = useDebounceStatus(debounced, !!options?.trackStatus);
+
+  return [state, debounced, status];
 }
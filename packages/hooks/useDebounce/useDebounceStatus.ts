@@ -0,0 +1,46 @@
+import { useEffect, useReducer } from 'react';
+
+import type { DebounceStatus, StatusFunctions } from './types';
+
+/**
+ * @example
+ *```ts
+ *import React from 'react';
+ *import { useDelayedFn, useDebounceStatus } from '@reactutils/use-debounce';
+ *
+ *function Editor({ onSave }) {
+ *  const save = useDelayedFn(onSave, { delay: 1000 });
+ *  const status = useDebounceStatus(save);
+ *
+ *  return (
+ *    <div>
+ *      <textarea onChange={(e) => save(e.target.value)} />
+ *      {status === 'pending' && <p>Typing…</p>}
+ *      {status === 'running' && <p>Saving…</p>}
+ *      {status === 'error' && <p>Saving failed</p>}
+ *    </div>
+ *  );
+ *}
+ *```
+ */
+
+export function useDebounceStatus(
+  debounced: StatusFunctions,
+  enabled = true
+): DebounceStatus {
+  const [, forceRender] = useReducer((count: number) => count + 1, 0);
+  const status = debounced.getStatus();
+
+  /* --------- Re-render whenever the status of the function changes --------- */
+  useEffect(() => {
+    if (!enabled) return;
+
+    const unsubscribe = debounced.subscribe(() => forceRender());
+    // Catch up with a change that happened between rendering and subscribing.
+    if (debounced.getStatus() !== status) forceRender();
+
+    return unsubscribe;
+  }, [debounced, enabled]);
+
+  return status;
+}
@@ -0,0 +1,104 @@
+import * as React from 'react';
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  Dispatch,
+  SetStateAction,
+} from 'react';
+
+import { useDelayedFn } from './useDelayedFn';
+import { isEqualValues, useOptimizedStateUpdater } from './utils';
+import type { DebouncedState, DebouncedStateOptions } from './types';
+
+// Read the React 18 APIs from the namespace so older React versions get `undefined`.
+const { startTransition, useDeferredValue } = React;
+
+/**
+ * @example
+ *```ts
+ *import React from 'react';
+ *import { useDebouncedState } from '@reactutils/use-debounce';
+ *
+ *export default function FilteredList({ items }) {
+ *  const [query, immediateQuery, setQuery] = useDebouncedState('', {
+ *    delay: 300,
+ *    commitMode: 'transition',
+ *  });
+ *
+ *  return (
+ *    <div>
+ *      <input
+ *        value={immediateQuery}
+ *        onChange={(e) => setQuery(e.target.value)}
+ *      />
+ *      <HeavyList items={items} query={query} />
+ *    </div>
+ *  );
+ *}
+ *```
+ */
+export function useDebouncedState<T>(
+  initialValue: T | (() => T),
+  options?: DebouncedStateOptions<T>
+): [T, T, Dispatch<SetStateAction<T>>, DebouncedState<(value: T) => void>] {
+  const eq = (options && options.equalityFn) || isEqualValues;
+  const eqRef = useRef(eq);
+  const commitMode = (options && options.commitMode) || 'sync';
+
+  /* ---------- Keep the immediate value and the latest one in a ref ---------- */
+  const [immediateValue, setImmediateValue] = useState(initialValue);
+  const latestValue = useRef(immediateValue);
+
+  /* -- Get the initial state and a dispatch function that ignores callbacks. - */
+  const [debouncedValue, dispatch] = useOptimizedStateUpdater(immediateValue);
+
+  /* -------- Commit the debounced value with the requested priority. -------- */
+  const commit = useCallback(
+    (value: T) => {
+      if (commitMode === 'transition' && startTransition) {
+        startTransition(() => dispatch(value));
+      } else {
+        dispatch(value);
+      }
+    },
+    [commitMode, dispatch]
+  );
+
+  const debounced = useDelayedFn(commit, options);
+
+  /* ----- Update the reference to the comparator function when it changes ---- */
+  useEffect(() => {
+    eqRef.current = eq;
+  }, [eq]);
+
+  /* ---- Update the immediate value and start the debounced update on change --- */
+  const setValue = useCallback(
+    (action: SetStateAction<T>) => {
+      const previousValue = latestValue.current;
+      const value =
+        typeof action === 'function'
+          ? (action as (previousValue: T) => T)(previousValue)
+          : action;
+
+      latestValue.current = value;
+      setImmediateValue(() => value);
+
+      if (!eqRef.current(previousValue, value)) {
+        debounced(value);
+      }
+    },
+    [debounced]
+  );
+
+  /* ---------- Read the committed value at low priority when deferred ---------- */
+  // Always called when available, so changing the commit mode keeps the order of the hooks.
+  const deferredValue = useDeferredValue
+    ? useDeferredValue(debouncedValue)
+    : debouncedValue;
+  const committedValue =
+    commitMode === 'deferred' ? deferredValue : debouncedValue;
+
+  return [committedValue, immediateValue, setValue, debounced];
+}
@@ -0,0 +1,142 @@
+import { useRef, useEffect, useMemo, useCallback } from 'react';
+
+import { useDelayedFn } from './useDelayedFn';
+import type { AsyncParameters, DelayedAsyncState, Options } from './types';
+
+type Deferred<R> = {
+  resolve: (value: R) => void;
+  reject: (reason: unknown) => void;
+};
+
+type Invocation<R> = {
+  controller: AbortController;
+  waiters: Deferred<R>[];
+};
+
+function createAbortError() {
+  const error = new Error('The debounced call was aborted.');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * @example
+ *```ts
+ *import React, { useState } from 'react';
+ *import { useDelayedAsyncFn } from '@reactutils/use-debounce';
+ *
+ *function Search() {
+ *  const [results, setResults] = useState([]);
+ *  const search = useDelayedAsyncFn(
+ *    (signal, query) =>
+ *      fetch(`/api/search?q=${query}`, { signal }).then((res) => res.json()),
+ *    { delay: 300 }
+ *  );
+ *
+ *  return (
+ *    <input
+ *      onChange={(e) =>
+ *        search(e.target.value).then(setResults, (error) => {
+ *          if (error.name !== 'AbortError') throw error;
+ *        })
+ *      }
+ *    />
+ *  );
+ *}
+ *```
+ */
+
+export function useDelayedAsyncFn<
+  T extends (signal: AbortSignal, ...args: any) => Promise<any>
+>(func: T, options?: Options<AsyncParameters<T>>): DelayedAsyncState<T> {
+  type Result = Awaited<ReturnType<T>>;
+
+  /* ------- Callers waiting for the next invocation and the one in flight ------ */
+  const waitersRef = useRef<Deferred<Result>[]>([]);
+  const invocationRef = useRef<Invocation<Result> | null>(null);
+  const funcRef = useRef(func);
+
+  /* ------ Update the reference to the original function when it changes ----- */
+  useEffect(() => {
+    funcRef.current = func;
+  }, [func]);
+
+  /* ------- Start a new invocation and abort the one that is now stale ------- */
+  const invoke = useCallback((...args: AsyncParameters<T>) => {
+    const previous = invocationRef.current;
+    const invocation: Invocation<Result> = {
+      controller: new AbortController(),
+      // Callers of a superseded invocation settle with the newer result.
+      waiters: (previous ? previous.waiters : []).concat(waitersRef.current),
+    };
+
+    waitersRef.current = [];
+    invocationRef.current = invocation;
+    previous?.controller.abort();
+
+    const settle = (callback: (waiter: Deferred<Result>) => void) => {
+      if (invocationRef.current !== invocation) return;
+      invocationRef.current = null;
+      invocation.waiters.forEach(callback);
+    };
+
+    const promise = new Promise<Result>((resolve) =>
+      resolve(funcRef.current(invocation.controller.signal, ...args))
+    );
+    promise.then(
+      (result) => settle((waiter) => waiter.resolve(result)),
+      (error) => settle((waiter) => waiter.reject(error))
+    );
+
+    // Returning the promise lets the debouncer report the `running` status.
+    return promise;
+  }, []);
+
+  const debounced = useDelayedFn<typeof invoke>(invoke, options);
+  const trailing = options && 'trailing' in options ? options.trailing : true;
+
+  /* -------- Abort the invocation in flight and reject every waiting call ------- */
+  const abort = useCallback(() => {
+    const invocation = invocationRef.current;
+    const waiters = (invocation ? invocation.waiters : []).concat(
+      waitersRef.current
+    );
+
+    waitersRef.current = [];
+    invocationRef.current = null;
+    invocation?.controller.abort();
+    waiters.forEach((waiter) => waiter.reject(createAbortError()));
+  }, []);
+
+  /* ------------------ Abort everything when the hook unmounts ----------------- */
+  useEffect(() => abort, [abort]);
+
+  /* ----------- Define the async debounced function using useMemo ----------- */
+  return useMemo(() => {
+    const debouncedAsyncFunc = ((...args: AsyncParameters<T>) =>
+      new Promise<Result>((resolve, reject) => {
+        const waiter = { resolve, reject };
+        // Register before calling so a leading-edge invocation picks it up.
+        waitersRef.current.push(waiter);
+        debounced(...args);
+
+        // Without a trailing edge, a call that didn't invoke the function never will.
+        const index = waitersRef.current.indexOf(waiter);
+        if (!trailing && index !== -1) {
+          waitersRef.current.splice(index, 1);
+          reject(createAbortError());
+        }
+      })) as DelayedAsyncState<T>;
+
+    debouncedAsyncFunc.cancel = () => {
+      debounced.cancel();
+      abort();
+    };
+    debouncedAsyncFunc.flush = debounced.flush;
+    debouncedAsyncFunc.isPending = debounced.isPending;
+    debouncedAsyncFunc.getStatus = debounced.getStatus;
+    debouncedAsyncFunc.subscribe = debounced.subscribe;
+
+    return debouncedAsyncFunc;
+  }, [debounced, abort, trailing]);
+}
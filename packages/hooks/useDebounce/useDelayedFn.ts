@@ -1,5 +1,8 @@
 import { useRef, useEffect, useMemo } from 'react';
-import type { DebouncedState, Options } from './types';
+import useScheduler from '@reactutils/use-scheduler';
+
+import { createDebouncer } from './createDebouncer';
+import type { DebouncedState, FlushOptions, Options } from './types';
 
 /**
  * @example
@@ -32,46 +35,74 @@ import type { DebouncedState, Options } from './types';
 
 export function useDelayedFn<T extends (...args: any) => ReturnType<T>>(
   func: T,
-  options?: Options
+  options?: Options<Parameters<T>> & FlushOptions<T>
 ): DebouncedState<T> {
-  let { delay } = options || {};
-  /* ----------- Track the timing and state of the debounce process ----------- */
-  const lastCallTimeRef = useRef<number | null>(null);
-  const lastInvokeTimeRef = useRef<number>(0);
-  const timerIdRef = useRef<number | null>(null);
-  const lastArgsRef = useRef<unknown[] | null>([]);
-  const lastThisRef = useRef<unknown>();
-  const resultRef = useRef<ReturnType<T>>();
+  const scheduler = useScheduler(options?.scheduler);
   const funcRef = useRef(func);
+  const optionsRef = useRef(options);
+  const sinkRef = useRef<((...args: Parameters<T>) => void) | null>(null);
   const mountedRef = useRef(true);
 
-  /* ------ Update the reference to the original function when it changes ----- */
+  /* --- Update the references to the original function and options on change -- */
   useEffect(() => {
     funcRef.current = func;
-  }, [func]);
-
-  /* ------- Determine whether to use requestAnimationFrame for waiting ------- */
-  const shouldUseRequestAnimationFrame =
-    !delay && delay !== 0 && typeof window !== 'undefined';
+    optionsRef.current = options;
+  });
 
   /* --------------------- Validate the provided function --------------------- */
   if (typeof func !== 'function') {
     throw new TypeError('Expected a function');
   }
 
-  /* --------- Convert delay to a positive number or use default value --------- */
-  delay = delay ? +delay : 0;
-  options = options || {};
-
   /* ----------------------------- Extract options ---------------------------- */
-  const leading = !!options.leading;
-  const trailing = 'trailing' in options ? !!options.trailing : true; // Default: true
-  const maxing = 'maxWait' in options;
-  const maxWait = maxing
-    ? Math.max(options.maxWait ? +options.maxWait : 0, delay)
-    : null;
-
-  /* ----------------- Update the mounted status in the effect ---------------- */
+  const leading = options?.leading;
+  const scheduling = options?.scheduling;
+  const trailing = options && 'trailing' in options ? options.trailing : true;
+
+  /* ------------- Create the debounced function using useMemo -------------- */
+  const debounced = useMemo(
+    () =>
+      createDebouncer(
+        function (this: unknown, ...args: Parameters<T>) {
+          // Never invoke the latest function once the component has unmounted.
+          if (!mountedRef.current) return undefined;
+          // A page-hide flush hands the arguments to its sink instead.
+          return (sinkRef.current || funcRef.current).apply(this, args as any);
+        } as T,
+        {
+          leading,
+          trailing,
+          scheduler,
+          scheduling,
+          // Read the latest delays on every call so changing them keeps pending calls.
+          delay: (args, history) => {
+            const delay = optionsRef.current?.delay;
+            return typeof delay === 'function' ? delay(args, history) : delay;
+          },
+          maxWait: (args, history) => {
+            const current = optionsRef.current;
+            if (!current || !('maxWait' in current)) return undefined;
+
+            const maxWait = current.maxWait;
+            return typeof maxWait === 'function'
+              ? maxWait(args, history)
+              : maxWait || 0;
+          },
+        }
+      ),
+    [leading, trailing, scheduler, scheduling]
+  );
+
+  /* ---- Flush or drop pending calls of a replaced or unmounted function ---- */
+  useEffect(
+    () => () => {
+      if (optionsRef.current?.flushOnUnmount) debounced.flush();
+      debounced.cancel();
+    },
+    [debounced]
+  );
+
+  /* --------- Update the mounted status after a final flush has run --------- */
   useEffect(() => {
     mountedRef.current = true;
     return () => {
@@ -79,138 +110,34 @@ export function useDelayedFn<T extends (...args: any) => ReturnType<T>>(
     };
   }, []);
 
-  /* --------------- Define the debounced function using useMemo -------------- */
-  const debounced = useMemo(() => {
-    const invokeFunc = (time: number) => {
-      const args = lastArgsRef.current;
-      const thisArg = lastThisRef.current;
-
-      lastArgsRef.current = lastThisRef.current = null;
-      lastInvokeTimeRef.current = time;
-      return (resultRef.current = funcRef.current.apply(thisArg, args as any));
-    };
-
-    const initializeDebounceTimer = (
-      pendingFunc: () => void,
-      delay: number
-    ) => {
-      if (shouldUseRequestAnimationFrame)
-        cancelAnimationFrame(timerIdRef.current!);
-      timerIdRef.current = shouldUseRequestAnimationFrame
-        ? requestAnimationFrame(pendingFunc)
-        : (setTimeout(pendingFunc, delay) as unknown as number);
-    };
-
-    const shouldExecuteDebounce = (time: number) => {
-      if (!mountedRef.current) return false;
-
-      const timeSinceLastCall = time - (lastCallTimeRef.current || 0);
-      const timeSinceLastInvoke = time - lastInvokeTimeRef.current;
-
-      return (
-        !lastCallTimeRef.current ||
-        timeSinceLastCall >= (delay ?? 0) ||
-        timeSinceLastCall < 0 ||
-        (maxing && timeSinceLastInvoke >= maxWait!)
-      );
-    };
-
-    const trailingEdge = (time: number) => {
-      timerIdRef.current = null;
-
-      if (trailing && lastArgsRef.current) {
-        return invokeFunc(time);
-      }
-
-      lastArgsRef.current = lastThisRef.current = null;
-      return resultRef.current;
-    };
-
-    const timerExpired = () => {
-      const time = Date.now();
-      if (shouldExecuteDebounce(time)) {
-        return trailingEdge(time);
-      }
-
-      if (!mountedRef.current) {
-        return;
-      }
-
-      const timeSinceLastCall = time - (lastCallTimeRef.current || 0);
-      const timeSinceLastInvoke = time - lastInvokeTimeRef.current;
-      const timeWaiting = delay ?? 0 - timeSinceLastCall;
-      const remainingWait = maxing
-        ? Math.min(timeWaiting, maxWait! - timeSinceLastInvoke)
-        : timeWaiting;
-
-      initializeDebounceTimer(timerExpired, remainingWait);
-    };
-
-    const debouncedFunc: DebouncedState<T> = (
-      ...args: Parameters<T>
-    ): ReturnType<T> | undefined => {
-      const time = Date.now();
-      const isInvoking = shouldExecuteDebounce(time);
-
-      lastArgsRef.current = args;
-      // @ts-ignore
-      lastThisRef.current = this;
-      lastCallTimeRef.current = time;
-
-      if (isInvoking) {
-        if (!timerIdRef.current && mountedRef.current) {
-          lastInvokeTimeRef.current = lastCallTimeRef.current;
-          initializeDebounceTimer(timerExpired, delay ?? 0);
-          return leading
-            ? invokeFunc(lastCallTimeRef.current)
-            : resultRef.current;
-        }
-
-        if (maxing) {
-          initializeDebounceTimer(timerExpired, delay ?? 0);
-          return invokeFunc(lastCallTimeRef.current);
-        }
-      }
+  /* ------------- Flush pending calls when the page is being hidden ------------ */
+  const shouldFlushOnPageHide = !!options?.flushOnPageHide;
 
-      if (!timerIdRef.current) {
-        initializeDebounceTimer(timerExpired, delay ?? 0);
+  useEffect(() => {
+    if (!shouldFlushOnPageHide || typeof window === 'undefined') return;
+
+    const handlePageHide = () => {
+      const flushOnPageHide = optionsRef.current?.flushOnPageHide;
+      sinkRef.current =
+        typeof flushOnPageHide === 'function' ? flushOnPageHide : null;
+      try {
+        debounced.flush();
+      } finally {
+        sinkRef.current = null;
       }
-
-      return resultRef.current;
     };
-
-    /* ------------- Add control functions to the debounced function ------------ */
-    debouncedFunc.cancel = () => {
-      if (timerIdRef.current) {
-        shouldUseRequestAnimationFrame
-          ? cancelAnimationFrame(timerIdRef.current)
-          : clearTimeout(timerIdRef.current);
-      }
-      lastInvokeTimeRef.current = 0;
-      lastArgsRef.current =
-        lastCallTimeRef.current =
-        lastThisRef.current =
-        timerIdRef.current =
-          null;
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') handlePageHide();
     };
 
-    debouncedFunc.isPending = () => {
-      return !!timerIdRef.current;
-    };
+    window.addEventListener('pagehide', handlePageHide);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
 
-    debouncedFunc.flush = () => {
-      return !timerIdRef.current ? resultRef.current : trailingEdge(Date.now());
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
     };
-
-    return debouncedFunc;
-  }, [
-    leading,
-    maxing,
-    delay,
-    maxWait,
-    trailing,
-    shouldUseRequestAnimationFrame,
-  ]);
+  }, [debounced, shouldFlushOnPageHide]);
 
   return debounced;
 }
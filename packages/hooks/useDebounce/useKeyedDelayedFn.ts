@@ -0,0 +1,166 @@
+import { useRef, useEffect, useMemo } from 'react';
+import useScheduler from '@reactutils/use-scheduler';
+
+import { createDebouncer } from './createDebouncer';
+import type {
+  DebouncedState,
+  KeyedDebouncedState,
+  KeyedOptions,
+} from './types';
+
+/**
+ * @example
+ *```ts
+ *import React from 'react';
+ *import { useKeyedDelayedFn } from '@reactutils/use-debounce';
+ *
+ *function Table({ rows }) {
+ *  const saveRow = useKeyedDelayedFn((row) => api.saveRow(row), {
+ *    delay: 500,
+ *    getKey: (row) => row.id,
+ *  });
+ *
+ *  return rows.map((row) => (
+ *    <Row
+ *      key={row.id}
+ *      row={row}
+ *      onChange={saveRow}
+ *      saving={saveRow.isPending(row.id)}
+ *    />
+ *  ));
+ *}
+ *```
+ */
+
+export function useKeyedDelayedFn<
+  T extends (...args: any) => ReturnType<T>,
+  K = string
+>(func: T, options: KeyedOptions<T, K>): KeyedDebouncedState<T, K> {
+  const scheduler = useScheduler(options.scheduler);
+  const funcRef = useRef(func);
+  const optionsRef = useRef(options);
+  const mountedRef = useRef(true);
+
+  /* --- Update the references to the original function and options on change -- */
+  useEffect(() => {
+    funcRef.current = func;
+    optionsRef.current = options;
+  });
+
+  /* --------------------- Validate the provided function --------------------- */
+  if (typeof func !== 'function') {
+    throw new TypeError('Expected a function');
+  }
+
+  /* ----------------------------- Extract options ---------------------------- */
+  const { leading, scheduling } = options;
+  const trailing = 'trailing' in options ? options.trailing : true;
+
+  /* ----------------- Update the mounted status in the effect ---------------- */
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  /* ---------- Create the keyed debounced function using useMemo ----------- */
+  const debounced = useMemo(() => {
+    const debouncers = new Map<K, DebouncedState<T>>();
+
+    // Keys without a pending invocation are idle and don't need their debouncer.
+    const removeIdleKeys = () => {
+      debouncers.forEach((debouncer, key) => {
+        if (!debouncer.isPending()) debouncers.delete(key);
+      });
+    };
+
+    const getDebouncer = (key: K) => {
+      let debouncer = debouncers.get(key);
+
+      if (!debouncer) {
+        debouncer = createDebouncer(
+          function (this: unknown, ...args: Parameters<T>) {
+            // Never invoke the latest function once the component has unmounted.
+            if (!mountedRef.current) return undefined;
+            const result = funcRef.current.apply(this, args as any);
+            removeIdleKeys();
+            return result;
+          } as T,
+          {
+            leading,
+            trailing,
+            scheduler,
+            scheduling,
+            // Read the latest delays on every call so changing them keeps pending calls.
+            delay: (args, history) => {
+              const delay = optionsRef.current.delay;
+              return typeof delay === 'function' ? delay(args, history) : delay;
+            },
+            maxWait: (args, history) => {
+              const current = optionsRef.current;
+              if (!('maxWait' in current)) return undefined;
+
+              const maxWait = current.maxWait;
+              return typeof maxWait === 'function'
+                ? maxWait(args, history)
+                : maxWait || 0;
+            },
+          }
+        );
+        debouncers.set(key, debouncer);
+      }
+
+      return debouncer;
+    };
+
+    /* -------- Run a control function for a single key or for every key -------- */
+    const forKeys = (
+      key: K | undefined,
+      control: (debouncer: DebouncedState<T>) => void
+    ) => {
+      if (key !== undefined) {
+        const debouncer = debouncers.get(key);
+        if (debouncer) control(debouncer);
+      } else {
+        debouncers.forEach(control);
+      }
+      removeIdleKeys();
+    };
+
+    const keyedFunc = function (this: unknown, ...args: Parameters<T>) {
+      removeIdleKeys();
+      return getDebouncer(optionsRef.current.getKey(...args)).apply(this, args);
+    } as KeyedDebouncedState<T, K>;
+
+    /* ------------- Add control functions to the debounced function ------------ */
+    keyedFunc.cancel = (key) => {
+      forKeys(key, (debouncer) => debouncer.cancel());
+    };
+
+    keyedFunc.flush = (key) => {
+      forKeys(key, (debouncer) => debouncer.flush());
+    };
+
+    keyedFunc.isPending = (key) => {
+      return keyedFunc.pendingKeys().some((pendingKey) => {
+        return key === undefined || pendingKey === key;
+      });
+    };
+
+    keyedFunc.pendingKeys = () => {
+      const keys: K[] = [];
+      debouncers.forEach((debouncer, key) => {
+        if (debouncer.isPending()) keys.push(key);
+      });
+      return keys;
+    };
+
+    return keyedFunc;
+  }, [leading, trailing, scheduler, scheduling]);
+
+  /* ------- Drop pending calls of a replaced or unmounted debounced function ----- */
+  useEffect(() => () => debounced.cancel(), [debounced]);
+
+  return debounced;
+}
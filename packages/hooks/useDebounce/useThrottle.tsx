@@ -0,0 +1,55 @@
+import useDebounce from './useDebounce';
+import type { DebounceStatus, DebouncedState, ThrottleOptions } from './types';
+
+/**
+ * @example
+ *```ts
+ *import React, { useState } from 'react';
+ *import { useThrottle } from '@reactutils/use-debounce';
+ *
+ *export default function Slider() {
+ *  const [value, setValue] = useState(0);
+ *  const [throttledValue] = useThrottle(value, 200);
+ *
+ *  return (
+ *    <div>
+ *      <input
+ *        type="range"
+ *        value={value}
+ *        onChange={(e) => setValue(+e.target.value)}
+ *      />
+ *      <p>Actual value: {value}</p>
+ *      <p>Throttled value: {throttledValue}</p>
+ *    </div>
+ *  );
+ *}
+ *```
+ */
+export function useThrottle<T>(
+  value: T,
+  interval: number,
+  options?: Omit<ThrottleOptions, 'interval'> & {
+    equalityFn?: (left: T, right: T) => boolean;
+    trackStatus?: boolean;
+  }
+): [T, DebouncedState<(value: T) => void>, DebounceStatus] {
+  const {
+    leading = true,
+    trailing = true,
+    scheduler,
+    scheduling,
+    equalityFn,
+    trackStatus,
+  } = options || {};
+
+  return useDebounce(value, {
+    delay: interval,
+    maxWait: interval,
+    leading,
+    trailing,
+    scheduler,
+    scheduling,
+    equalityFn,
+    trackStatus,
+  });
+}
@@ -0,0 +1,50 @@
+import { useDelayedFn } from './useDelayedFn';
+import type { DebouncedState, ThrottleOptions } from './types';
+
+/**
+ * @example
+ *```ts
+ *import React, { useEffect } from 'react';
+ *import { useThrottledFn } from '@reactutils/use-debounce';
+ *
+ *function ScrollTracker({ onScroll }) {
+ *  const throttledScroll = useThrottledFn(
+ *    () => onScroll(window.scrollY),
+ *    { interval: 100 }
+ *  );
+ *
+ *  useEffect(() => {
+ *    window.addEventListener('scroll', throttledScroll);
+ *    return () => {
+ *      throttledScroll.cancel();
+ *      window.removeEventListener('scroll', throttledScroll);
+ *    };
+ *  }, [throttledScroll]);
+ *
+ *  return null;
+ *}
+ *```
+ */
+
+export function useThrottledFn<T extends (...args: any) => ReturnType<T>>(
+  func: T,
+  options?: ThrottleOptions
+): DebouncedState<T> {
+  const {
+    interval,
+    leading = true,
+    trailing = true,
+    scheduler,
+    scheduling,
+  } = options || {};
+
+  /* ---- Throttling is debouncing that never waits longer than the interval --- */
+  return useDelayedFn(func, {
+    delay: interval,
+    maxWait: interval,
+    leading,
+    trailing,
+    scheduler,
+    scheduling,
+  });
+}
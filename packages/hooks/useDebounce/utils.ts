@@ -0,0 +1,21 @@
+import { useCallback, useState, Dispatch } from 'react';
+
+export function isEqualValues<T>(left: T, right: T): boolean {
+  return left === right;
+}
+
+function normalizeStateUpdateValue<T>(value: T): T | (() => T) {
+  return typeof value === 'function' ? () => value : value;
+}
+
+export function useOptimizedStateUpdater<T>(initialState: T): [T, Dispatch<T>] {
+  const [state, setState] = useState(normalizeStateUpdateValue(initialState));
+
+  // Create a dispatch function that ensures callback functions are ignored.
+  const dispatchOptimizedStateUpdater = useCallback(
+    (value: T) => setState(normalizeStateUpdateValue(value)),
+    []
+  );
+
+  return [state, dispatchOptimizedStateUpdater];
+}
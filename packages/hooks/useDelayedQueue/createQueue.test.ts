@@ -0,0 +1,219 @@
+import { describe, expect, it } from 'vitest';
+import { createVirtualScheduler } from '@reactutils/use-scheduler';
+
+import { createQueue } from './createQueue';
+import type { TaskOptions, UseQueueOptions } from './types';
+
+/* ------- Queue tasks while paused, then record the order in which they run ------- */
+function setup(options?: UseQueueOptions) {
+  const scheduler = createVirtualScheduler();
+  const queue = createQueue({
+    timeout: () => 100,
+    options: () => options,
+    scheduler,
+  });
+  const runs: string[] = [];
+  const add = (name: string, options?: TaskOptions) =>
+    queue.add(() => {
+      runs.push(name);
+      return name;
+    }, options);
+
+  queue.start();
+  queue.pause();
+
+  const runAll = () => {
+    queue.resume();
+    scheduler.runAll();
+    return runs;
+  };
+
+  return { queue, scheduler, add, runAll };
+}
+
+describe('createQueue ordering', () => {
+  it('starts tasks by priority, then in the order they were added', () => {
+    const { add, runAll } = setup();
+
+    add('a');
+    add('b', { priority: 1 });
+    add('c');
+    add('d', { priority: 1 });
+    add('e', { priority: -1 });
+
+    expect(runAll()).toEqual(['b', 'd', 'a', 'c', 'e']);
+  });
+
+  it('merges a task into the waiting one with the same key', async () => {
+    const { queue, add, runAll } = setup();
+
+    add('first');
+    const original = add('x1', { key: 'x' });
+    add('second');
+    const duplicate = add('x2', { key: 'x' });
+
+    expect(duplicate).toBe(original);
+    expect(duplicate.id).toBe(original.id);
+    expect(queue.getState().size).toBe(3);
+    // The merged task keeps its position and runs the function added last.
+    expect(runAll()).toEqual(['first', 'x2', 'second']);
+    await expect(original).resolves.toBe('x2');
+  });
+
+  it('moves a merged task ahead when the duplicate has a higher priority', () => {
+    const { add, runAll } = setup();
+
+    add('first');
+    add('x1', { key: 'x' });
+    add('second', { priority: 1 });
+    add('x2', { key: 'x', priority: 2 });
+
+    expect(runAll()).toEqual(['x2', 'second', 'first']);
+  });
+
+  it('keeps the waiting function and options with `onDuplicate: keep`', async () => {
+    const { add, runAll } = setup();
+
+    add('first');
+    const original = add('x1', { key: 'x' });
+    const duplicate = add('x2', {
+      key: 'x',
+      onDuplicate: 'keep',
+      priority: 1,
+    });
+
+    expect(duplicate).toBe(original);
+    // The priority is still upgraded.
+    expect(runAll()).toEqual(['x1', 'first']);
+    await expect(duplicate).resolves.toBe('x1');
+  });
+
+  it('does not merge into a task that already started', () => {
+    const { queue, add } = setup();
+    queue.resume();
+
+    // The first task on an idle queue starts right away.
+    const started = add('x1', { key: 'x' });
+    const next = add('x2', { key: 'x' });
+
+    expect(next).not.toBe(started);
+    expect(queue.getState().size).toBe(1);
+  });
+});
+
+describe('createQueue draining', () => {
+  it('starts a large backlog of synchronous tasks without recursing', () => {
+    const scheduler = createVirtualScheduler();
+    const queue = createQueue({
+      timeout: () => 0,
+      options: () => undefined,
+      scheduler,
+    });
+    let runs = 0;
+
+    queue.start();
+    queue.pause();
+    for (let index = 0; index < 20000; index++) queue.add(() => runs++);
+    queue.resume();
+
+    expect(runs).toBe(20000);
+    expect(queue.getState().size).toBe(0);
+  });
+});
+
+describe('createQueue rate limit', () => {
+  it('starts a burst of tasks, then one task per earned token', () => {
+    const { queue, scheduler } = setup({
+      rateLimit: { limit: 2, interval: 1000, burst: 3 },
+    });
+    const starts: number[] = [];
+
+    for (let index = 0; index < 5; index++) {
+      queue.add(() => starts.push(scheduler.now()));
+    }
+    queue.resume();
+
+    // The bucket starts full, and then earns a token every 500 milliseconds.
+    expect(starts).toEqual([0, 0, 0]);
+    expect(queue.getState()).toMatchObject({
+      size: 2,
+      tokens: 0,
+      nextSlotAt: 500,
+    });
+
+    scheduler.advanceBy(500);
+    expect(starts).toEqual([0, 0, 0, 500]);
+    expect(queue.getState()).toMatchObject({
+      size: 1,
+      tokens: 0,
+      nextSlotAt: 1000,
+    });
+
+    // Once the queue is empty, the bucket fills up again.
+    scheduler.runAll();
+    expect(starts).toEqual([0, 0, 0, 500, 1000]);
+    expect(queue.getState()).toMatchObject({
+      size: 0,
+      tokens: 3,
+      nextSlotAt: null,
+    });
+  });
+});
+
+describe('createQueue retries', () => {
+  it('retries a failed task with exponential backoff', async () => {
+    const errors: unknown[] = [];
+    const { queue, scheduler } = setup({
+      retries: 3,
+      retryDelay: 100,
+      maxRetryDelay: 300,
+      jitter: false,
+      onError: (error) => errors.push(error),
+    });
+    const attempts: number[] = [];
+    const error = new Error('failed');
+
+    const task = queue.add(() => {
+      attempts.push(scheduler.now());
+      throw error;
+    });
+    queue.resume();
+    scheduler.runAll();
+
+    // The waits double from `retryDelay` up to `maxRetryDelay`.
+    expect(attempts).toEqual([0, 100, 300, 600]);
+    await expect(task).rejects.toBe(error);
+    expect(errors).toEqual([error]);
+    expect(queue.getState().deadLetters).toMatchObject([
+      { id: task.id, error, attempts: 4 },
+    ]);
+  });
+
+  it('fails an attempt that takes longer than the timeout', async () => {
+    const { queue, scheduler } = setup({
+      taskTimeout: 50,
+      retries: 1,
+      retryDelay: 100,
+      jitter: false,
+    });
+    const signals: AbortSignal[] = [];
+
+    const task = queue.add((signal) => {
+      signals.push(signal);
+      return new Promise(() => undefined);
+    });
+    queue.resume();
+
+    scheduler.advanceBy(50);
+    expect(signals.map((signal) => signal.aborted)).toEqual([true]);
+
+    scheduler.runAll();
+    expect(scheduler.now()).toBe(200);
+    expect(signals.map((signal) => signal.aborted)).toEqual([true, true]);
+    await expect(task).rejects.toMatchObject({ name: 'TimeoutError' });
+    expect(queue.getState()).toMatchObject({ activeCount: 0 });
+    expect(queue.getState().deadLetters).toMatchObject([
+      { id: task.id, attempts: 2 },
+    ]);
+  });
+});
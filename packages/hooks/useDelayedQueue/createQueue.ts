@@ -0,0 +1,536 @@
+import { realTimeScheduler } from '@reactutils/use-scheduler';
+import type {
+  Scheduler,
+  SchedulingMode,
+  TaskHandle,
+} from '@reactutils/use-scheduler';
+
+import type {
+  DeadLetter,
+  QueueFn,
+  QueueState,
+  QueueTaskId,
+  QueuedTask,
+  RateLimit,
+  TaskOptions,
+  UseQueueOptions,
+} from './types';
+
+type QueueSettings = {
+  /**
+   * Read the gap between two tasks. It's read again for every task so it can change while
+   * tasks are waiting.
+   */
+  timeout: () => number;
+  /**
+   * Read the latest options for concurrency, timeouts, retries and errors.
+   */
+  options: () => UseQueueOptions | undefined;
+  scheduler?: Scheduler;
+  scheduling?: SchedulingMode;
+};
+
+type QueueTask = {
+  id: QueueTaskId;
+  fn: QueueFn;
+  options: TaskOptions;
+  priority: number;
+  // Handed out again to every duplicate that merges into this task.
+  promise: QueuedTask<any>;
+  resolve: (value: any) => void;
+  reject: (reason: unknown) => void;
+  attempts: number;
+  controller: AbortController | null;
+  // The attempt timeout or the wait before the next retry.
+  timerId: TaskHandle | null;
+};
+
+export type Queue = {
+  add: <R>(fn: QueueFn<R>, options?: TaskOptions) => QueuedTask<R>;
+  remove: (id: QueueTaskId) => boolean;
+  clear: () => void;
+  clearDeadLetters: () => void;
+  pause: () => void;
+  resume: () => void;
+  /**
+   * Start running tasks again after `stop`.
+   */
+  start: () => void;
+  /**
+   * Stop the timers and abort the active tasks, keeping the waiting ones, e.g. when the
+   * owning component unmounts.
+   */
+  stop: () => void;
+  getState: () => QueueState;
+  subscribe: (listener: (state: QueueState) => void) => () => void;
+};
+
+function createError(name: string, message: string) {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+function createAbortError() {
+  return createError('AbortError', 'The queued task was aborted.');
+}
+
+// The errors of the tasks aborted by `stop`, as opposed to `remove` and `clear`.
+const stopErrors = new WeakSet<Error>();
+
+function createStopError() {
+  const error = createError('AbortError', 'The queue was stopped.');
+  stopErrors.add(error);
+  return error;
+}
+
+/**
+ * Tell whether a task was rejected because `stop` aborted it, e.g. when the owning
+ * component unmounted, rather than because it was removed.
+ */
+export function isStopError(error: unknown) {
+  return error instanceof Error && stopErrors.has(error);
+}
+
+function isPromiseLike<T>(value: unknown): value is PromiseLike<T> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as PromiseLike<T>).then === 'function'
+  );
+}
+
+/**
+ * Create the queue behind `useQueue`. Tasks start by priority, then in the order they were
+ * added, with at least `timeout` milliseconds between the start of two tasks, or at the
+ * pace of the rate limit, and at most `concurrency` tasks active at once.
+ */
+export function createQueue(settings: QueueSettings): Queue {
+  const scheduler = settings.scheduler || realTimeScheduler;
+
+  /* --------------- Track the tasks and the timer between them --------------- */
+  let tasks: QueueTask[] = [];
+  const activeTasks = new Map<QueueTaskId, QueueTask>();
+  let nextId = 1;
+  let timerId: TaskHandle | null = null;
+  let lastRunTime: number | null = null;
+  // Set while `startTimer` starts the due tasks.
+  let starting = false;
+  let paused = false;
+  let active = true;
+
+  /* ------------- Track the token bucket when a rate limit is set ------------- */
+  let tokens: number | null = null;
+  let tokensTime = 0;
+  let refillTimerId: TaskHandle | null = null;
+  let nextSlotAt: number | null = null;
+
+  /* ---------- Track the state and notify its listeners on change ---------- */
+  let deadLetters: DeadLetter[] = [];
+  let state: QueueState = {
+    size: 0,
+    activeCount: 0,
+    isRunning: false,
+    isPaused: false,
+    deadLetters,
+    tokens: null,
+    nextSlotAt: null,
+  };
+  const listeners = new Set<(state: QueueState) => void>();
+
+  const updateState = () => {
+    const nextState: QueueState = {
+      size: tasks.length,
+      activeCount: activeTasks.size,
+      isRunning: activeTasks.size > 0 || (!paused && tasks.length > 0),
+      isPaused: paused,
+      deadLetters,
+      tokens: tokens === null ? null : Math.floor(tokens),
+      nextSlotAt,
+    };
+
+    if (
+      nextState.size !== state.size ||
+      nextState.activeCount !== state.activeCount ||
+      nextState.isRunning !== state.isRunning ||
+      nextState.isPaused !== state.isPaused ||
+      nextState.deadLetters !== state.deadLetters ||
+      nextState.tokens !== state.tokens ||
+      nextState.nextSlotAt !== state.nextSlotAt
+    ) {
+      state = nextState;
+      listeners.forEach((listener) => listener(state));
+    }
+  };
+
+  const getOptions = () => settings.options() || {};
+
+  /* ------- Keep the tasks sorted by priority, then by the order they were added ------- */
+  const comesBefore = (task: QueueTask, other: QueueTask) =>
+    task.priority > other.priority ||
+    (task.priority === other.priority && task.id < other.id);
+
+  const insertTask = (task: QueueTask) => {
+    let index = tasks.length;
+    while (index > 0 && comesBefore(task, tasks[index - 1])) index--;
+    tasks.splice(index, 0, task);
+  };
+
+  // A waiting task with the same key takes the higher of both priorities. It keeps the
+  // position it earned by being added first, unless the new priority moves it ahead.
+  const mergeTask = (task: QueueTask, fn: QueueFn, options: TaskOptions) => {
+    if (options.onDuplicate !== 'keep') {
+      task.fn = fn;
+      task.options = options;
+    }
+
+    const priority = options.priority || 0;
+    if (priority > task.priority) {
+      tasks.splice(tasks.indexOf(task), 1);
+      task.priority = priority;
+      insertTask(task);
+    }
+  };
+
+  const getCapacity = (rateLimit: RateLimit) =>
+    rateLimit.burst !== undefined ? rateLimit.burst : rateLimit.limit;
+
+  // Add the tokens earned since the last refill. The bucket starts full.
+  const refill = () => {
+    const rateLimit = getOptions().rateLimit;
+    const time = scheduler.now();
+
+    if (!rateLimit) {
+      tokens = null;
+      return null;
+    }
+
+    const earned = ((time - tokensTime) * rateLimit.limit) / rateLimit.interval;
+    // Round away floating point noise so a timer due on a whole token earns it.
+    tokens =
+      tokens === null
+        ? getCapacity(rateLimit)
+        : Math.min(
+            getCapacity(rateLimit),
+            Math.round((tokens + earned) * 1e9) / 1e9
+          );
+    tokensTime = time;
+    return rateLimit;
+  };
+
+  // Keep a timer for the next whole token while the bucket isn't full. It updates the
+  // state and starts the next waiting task.
+  const scheduleRefill = () => {
+    const rateLimit = refill();
+
+    if (
+      !rateLimit ||
+      tokens === null ||
+      refillTimerId !== null ||
+      tokens >= getCapacity(rateLimit)
+    ) {
+      return;
+    }
+
+    const wait = Math.ceil(
+      ((Math.floor(tokens) + 1 - tokens) * rateLimit.interval) / rateLimit.limit
+    );
+
+    nextSlotAt = scheduler.now() + wait;
+    refillTimerId = scheduler.schedule(
+      () => {
+        refillTimerId = nextSlotAt = null;
+        scheduleRefill();
+        updateState();
+        startTimer();
+      },
+      wait,
+      settings.scheduling
+    );
+  };
+
+  const stopRefill = () => {
+    if (refillTimerId !== null) scheduler.cancel(refillTimerId);
+    refillTimerId = nextSlotAt = null;
+  };
+
+  const stopTimer = () => {
+    if (timerId !== null) scheduler.cancel(timerId);
+    timerId = null;
+  };
+
+  /* ------------------------ Settle an active task ------------------------ */
+  const finishTask = (task: QueueTask) => {
+    if (task.timerId !== null) scheduler.cancel(task.timerId);
+    task.timerId = null;
+    task.controller = null;
+    activeTasks.delete(task.id);
+  };
+
+  const abortTask = (task: QueueTask, error: Error) => {
+    const controller = task.controller;
+
+    finishTask(task);
+    controller?.abort();
+    task.reject(error);
+  };
+
+  const retryWait = (attempts: number) => {
+    const {
+      retryDelay = 1000,
+      maxRetryDelay = 30000,
+      jitter = true,
+    } = getOptions();
+    const wait = Math.min(
+      retryDelay * Math.pow(2, attempts - 1),
+      maxRetryDelay
+    );
+
+    return jitter ? wait / 2 + (Math.random() * wait) / 2 : wait;
+  };
+
+  const runAttempt = (task: QueueTask) => {
+    const options = getOptions();
+    const timeout =
+      task.options.timeout !== undefined
+        ? task.options.timeout
+        : options.taskTimeout;
+    const controller = new AbortController();
+
+    task.attempts++;
+    task.controller = controller;
+    task.timerId = null;
+
+    // Ignore the outcome of an attempt that timed out, or of a task that was removed.
+    const isCurrent = () => task.controller === controller;
+
+    const succeed = (value: unknown) => {
+      if (!isCurrent()) return;
+      finishTask(task);
+      task.resolve(value);
+      updateState();
+      startTimer();
+    };
+
+    const fail = (error: unknown) => {
+      if (!isCurrent()) return;
+      if (task.timerId !== null) scheduler.cancel(task.timerId);
+
+      const retries =
+        task.options.retries !== undefined
+          ? task.options.retries
+          : options.retries || 0;
+
+      if (task.attempts <= retries) {
+        task.controller = null;
+        task.timerId = scheduler.schedule(
+          () => runAttempt(task),
+          retryWait(task.attempts)
+        );
+        return;
+      }
+
+      finishTask(task);
+      const deadLetter: DeadLetter = {
+        id: task.id,
+        fn: task.fn,
+        error,
+        attempts: task.attempts,
+      };
+      deadLetters = deadLetters.concat(deadLetter);
+      task.reject(error);
+      updateState();
+      getOptions().onError?.(error, deadLetter);
+      startTimer();
+    };
+
+    if (timeout !== undefined) {
+      task.timerId = scheduler.schedule(() => {
+        controller.abort();
+        fail(createError('TimeoutError', 'The queued task timed out.'));
+      }, timeout);
+    }
+
+    let result: unknown;
+    try {
+      result = task.fn(controller.signal);
+    } catch (error) {
+      fail(error);
+      return;
+    }
+
+    if (isPromiseLike(result)) {
+      result.then(succeed, fail);
+    } else {
+      succeed(result);
+    }
+  };
+
+  const runQueue = () => {
+    timerId = null;
+    const task = tasks.shift();
+    if (!task) return;
+
+    lastRunTime = scheduler.now();
+    if (refill() && tokens !== null) {
+      tokens = Math.max(0, tokens - 1);
+      scheduleRefill();
+    }
+    activeTasks.set(task.id, task);
+    updateState();
+    runAttempt(task);
+    startTimer();
+  };
+
+  // Without a rate limit, wait for whatever is left of the gap since the last task
+  // started, so pausing, clearing or an empty queue never lets two tasks start closer
+  // together than `timeout`. With a rate limit, wait for a token instead. Tell whether the
+  // next task is due now, and schedule it otherwise.
+  const isDue = () => {
+    const concurrency = getOptions().concurrency || 1;
+
+    if (
+      !active ||
+      paused ||
+      timerId !== null ||
+      !tasks.length ||
+      activeTasks.size >= concurrency
+    ) {
+      return false;
+    }
+
+    if (refill()) {
+      if (tokens !== null && tokens >= 1) return true;
+
+      scheduleRefill();
+      return false;
+    }
+
+    const wait =
+      lastRunTime === null
+        ? 0
+        : lastRunTime + settings.timeout() - scheduler.now();
+
+    if (wait <= 0) return true;
+
+    timerId = scheduler.schedule(runQueue, wait, settings.scheduling);
+    return false;
+  };
+
+  // Start the due tasks in a loop, as tasks that settle at once call `startTimer` again.
+  const startTimer = () => {
+    if (starting) return;
+
+    starting = true;
+    try {
+      while (isDue()) runQueue();
+    } finally {
+      starting = false;
+    }
+  };
+
+  return {
+    add: <R>(fn: QueueFn<R>, options: TaskOptions = {}) => {
+      const { key } = options;
+      const duplicate =
+        key !== undefined
+          ? tasks.find((task) => task.options.key === key)
+          : undefined;
+
+      if (duplicate) {
+        mergeTask(duplicate, fn, options);
+        updateState();
+        return duplicate.promise;
+      }
+
+      const id = nextId++;
+      let resolve: (value: any) => void = () => undefined;
+      let reject: (reason: unknown) => void = () => undefined;
+      const promise = Object.assign(
+        new Promise<R>((resolvePromise, rejectPromise) => {
+          resolve = resolvePromise;
+          reject = rejectPromise;
+        }),
+        { id }
+      );
+      // Failures are also reported through `onError` and the dead letters, so a
+      // promise nobody listens to shouldn't be reported as an unhandled rejection.
+      promise.catch(() => undefined);
+
+      insertTask({
+        id,
+        fn,
+        options,
+        priority: options.priority || 0,
+        promise,
+        resolve,
+        reject,
+        attempts: 0,
+        controller: null,
+        timerId: null,
+      });
+      updateState();
+      startTimer();
+      return promise;
+    },
+    remove: (id) => {
+      const activeTask = activeTasks.get(id);
+      const index = tasks.findIndex((task) => task.id === id);
+
+      if (activeTask) {
+        abortTask(activeTask, createAbortError());
+      } else if (index !== -1) {
+        tasks.splice(index, 1)[0].reject(createAbortError());
+        if (!tasks.length) stopTimer();
+      } else {
+        return false;
+      }
+
+      updateState();
+      startTimer();
+      return true;
+    },
+    clear: () => {
+      const removed = tasks;
+
+      tasks = [];
+      stopTimer();
+      removed.forEach((task) => task.reject(createAbortError()));
+      updateState();
+    },
+    clearDeadLetters: () => {
+      deadLetters = [];
+      updateState();
+    },
+    pause: () => {
+      paused = true;
+      stopTimer();
+      updateState();
+    },
+    resume: () => {
+      paused = false;
+      updateState();
+      startTimer();
+    },
+    start: () => {
+      active = true;
+      scheduleRefill();
+      updateState();
+      startTimer();
+    },
+    stop: () => {
+      active = false;
+      stopTimer();
+      stopRefill();
+      activeTasks.forEach((task) => abortTask(task, createStopError()));
+      updateState();
+    },
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
@@ -1 +1,19 @@
 export { default } from './useDelayedQueue';
+export { usePersistentQueue } from './usePersistentQueue';
+export type {
+  DeadLetter,
+  PersistentQueueOptions,
+  QueueFn,
+  QueueState,
+  QueueStorage,
+  QueueTaskId,
+  QueuedTask,
+  RateLimit,
+  TaskDescriptor,
+  TaskHandler,
+  TaskHandlers,
+  TaskOptions,
+  UsePersistentQueueReturnType,
+  UseQueueOptions,
+  UseQueueReturnType,
+} from './types';
@@ -1,5 +1,264 @@
-export type QueueFn = (args?: any) => void;
+import type { Scheduler, SchedulingMode } from '@reactutils/use-scheduler';
 
-export type UseQueueReturnType = {
-  addToQueue: (fn: QueueFn) => void;
+/**
+ * A task in the queue. It receives a signal that is aborted when the task times out or is
+ * removed, and may return a promise to keep its slot until the promise settles.
+ */
+export type QueueFn<R = any> = (signal: AbortSignal) => R | PromiseLike<R>;
+
+/**
+ * Identifies a task in the queue. Ids are never `0`.
+ */
+export type QueueTaskId = number;
+
+/**
+ * The promise for the result of a queued task, along with the task id.
+ */
+export type QueuedTask<R> = Promise<R> & {
+  id: QueueTaskId;
+};
+
+/**
+ * A task that failed on its last attempt.
+ */
+export type DeadLetter = {
+  id: QueueTaskId;
+  fn: QueueFn;
+  /**
+   * The error of the last attempt.
+   */
+  error: unknown;
+  /**
+   * The number of attempts made, including the first one.
+   */
+  attempts: number;
+};
+
+/**
+ * Options that can be set for a single task.
+ */
+export type TaskOptions = {
+  /**
+   * Tasks with a higher priority start first. Tasks with the same priority start in the
+   * order they were added. Defaults to `0`.
+   */
+  priority?: number;
+  /**
+   * Identifies tasks that do the same work. Adding a task while another task with the same
+   * key is waiting merges both into one task instead of running twice.
+   */
+  key?: string | number;
+  /**
+   * What a duplicate does with the waiting task it merges into: `replace` its function and
+   * options, or `keep` them. Either way both callers get the same promise. Defaults to
+   * `replace`.
+   */
+  onDuplicate?: 'replace' | 'keep';
+  /**
+   * The time an attempt may take before it fails with a `TimeoutError`. Overrides
+   * `taskTimeout`.
+   */
+  timeout?: number;
+  /**
+   * The number of times the task is retried after failing. Overrides `retries`.
+   */
+  retries?: number;
+};
+
+/**
+ * Token-bucket rate limiting: the bucket holds up to `burst` tokens, earns `limit` tokens
+ * every `interval` milliseconds, and every task takes one token to start.
+ */
+export type RateLimit = {
+  /**
+   * The number of tokens earned every `interval`.
+   */
+  limit: number;
+  /**
+   * The time in milliseconds over which `limit` tokens are earned.
+   */
+  interval: number;
+  /**
+   * The most tokens the bucket can hold, and the number of tasks that may start at once
+   * after the queue was idle. Defaults to `limit`.
+   */
+  burst?: number;
+};
+
+export type UseQueueOptions = {
+  /**
+   * The scheduler used to start the timers between tasks. Defaults to the closest
+   * `SchedulerProvider`, or to real time.
+   */
+  scheduler?: Scheduler;
+  /**
+   * How the timers between tasks wait for their turn. Defaults to `timeout`.
+   */
+  scheduling?: SchedulingMode;
+  /**
+   * Start tasks at the pace of a token bucket instead of with a fixed gap. When it's set,
+   * the `timeout` gap is ignored.
+   */
+  rateLimit?: RateLimit;
+  /**
+   * The number of tasks that may run at once. Defaults to `1`.
+   */
+  concurrency?: number;
+  /**
+   * The time an attempt may take before it fails with a `TimeoutError`. No timeout by
+   * default.
+   */
+  taskTimeout?: number;
+  /**
+   * The number of times a task is retried after failing. Defaults to `0`.
+   */
+  retries?: number;
+  /**
+   * The wait before the first retry. It doubles with every retry. Defaults to `1000`.
+   */
+  retryDelay?: number;
+  /**
+   * The longest wait between two retries. Defaults to `30000`.
+   */
+  maxRetryDelay?: number;
+  /**
+   * Wait a random time between half and all of the retry delay, so failed tasks don't
+   * retry in lockstep. Defaults to `true`.
+   */
+  jitter?: boolean;
+  /**
+   * Called when a task failed on its last attempt.
+   */
+  onError?: (error: unknown, task: DeadLetter) => void;
+};
+
+/**
+ * A snapshot of the queue. A new snapshot is created whenever one of its fields changes.
+ */
+export type QueueState = {
+  /**
+   * The number of tasks waiting for their turn.
+   */
+  size: number;
+  /**
+   * The number of tasks that started and haven't settled yet, including those waiting
+   * to retry.
+   */
+  activeCount: number;
+  /**
+   * `true` while tasks are active, or waiting while the queue isn't paused.
+   */
+  isRunning: boolean;
+  /**
+   * `true` between `pause` and `resume`.
+   */
+  isPaused: boolean;
+  /**
+   * The tasks that failed on their last attempt, oldest first.
+   */
+  deadLetters: DeadLetter[];
+  /**
+   * The whole tokens left in the bucket, or `null` without a rate limit.
+   */
+  tokens: number | null;
+  /**
+   * The time, on the scheduler's clock, when the bucket earns its next token. `null` when
+   * the bucket is full or without a rate limit.
+   */
+  nextSlotAt: number | null;
+};
+
+export type UseQueueReturnType = QueueState & {
+  /**
+   * Add a task behind the waiting tasks with the same or a higher priority, or merge it
+   * into the waiting task with the same key.
+   * @returns {QueuedTask} A promise for the result of the task, with an id that can be
+   * passed to `remove`. A merged task returns the promise of the task it merged into.
+   */
+  addToQueue: <R>(fn: QueueFn<R>, options?: TaskOptions) => QueuedTask<R>;
+  /**
+   * Stop starting tasks. Active tasks keep running, and tasks added while paused wait
+   * until `resume`.
+   */
+  pause: () => void;
+  /**
+   * Continue starting tasks, keeping the gap to the last task that started.
+   */
+  resume: () => void;
+  /**
+   * Remove every waiting task. Their promises reject with an `AbortError`.
+   */
+  clear: () => void;
+  /**
+   * Remove a waiting or active task. Its promise rejects with an `AbortError`, and an
+   * active task has its signal aborted.
+   * @returns {boolean} `false` if the task already settled or was never queued.
+   */
+  remove: (id: QueueTaskId) => boolean;
+  /**
+   * Empty the list of dead letters.
+   */
+  clearDeadLetters: () => void;
+};
+
+/**
+ * A serializable description of a task. `type` selects the handler that runs it.
+ */
+export type TaskDescriptor<T extends string = string, P = any> = {
+  type: T;
+  payload?: P;
+};
+
+/**
+ * Runs the tasks of one type. It receives the payload of the descriptor and the signal of
+ * the attempt.
+ */
+export type TaskHandler<P = any, R = unknown> = (
+  payload: P,
+  signal: AbortSignal
+) => R | PromiseLike<R>;
+
+export type TaskHandlers = Record<string, TaskHandler>;
+
+/**
+ * The part of the Web Storage API the persistent queue writes to.
+ */
+export type QueueStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+export type PersistentQueueOptions = UseQueueOptions & {
+  /**
+   * The storage key the pending descriptors are saved under.
+   */
+  storageKey: string;
+  /**
+   * The storage the pending descriptors are saved to. Defaults to `localStorage`.
+   */
+  storage?: QueueStorage;
+  /**
+   * The gap in milliseconds between the start of two tasks. Defaults to `1000`.
+   */
+  timeout?: number;
+  /**
+   * Called when saving or reading the descriptors fails, e.g. with a `QuotaExceededError`
+   * when the storage is full. Defaults to `console.error`.
+   */
+  onStorageError?: (error: unknown) => void;
+};
+
+export type UsePersistentQueueReturnType<H extends TaskHandlers> = Omit<
+  UseQueueReturnType,
+  'addToQueue'
+> & {
+  /**
+   * Add a task descriptor to the queue and save it until the task settles.
+   * @returns {QueuedTask} A promise for the result of the handler, with the task id.
+   */
+  addToQueue: <K extends keyof H & string>(
+    descriptor: TaskDescriptor<K, Parameters<H[K]>[0]>,
+    options?: TaskOptions
+  ) => QueuedTask<Awaited<ReturnType<H[K]>>>;
+  /**
+   * `true` unless the browser reports being offline. The queue is paused while offline.
+   */
+  isOnline: boolean;
 };
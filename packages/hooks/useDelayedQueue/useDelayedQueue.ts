@@ -1,28 +1,81 @@
-import { QueueFn, UseQueueReturnType } from './types';
-
-const useQueue = (timeout = 1000): UseQueueReturnType => {
-  const queue: QueueFn[] = [];
-  let notRunning = true;
-
-  const runQueue = () => {
-    if (queue.length > 0) {
-      const fn = queue.shift();
-      fn?.();
-      setTimeout(runQueue, timeout);
-    } else {
-      notRunning = true;
-    }
-  };
+import { useEffect, useMemo, useReducer, useRef } from 'react';
+import useScheduler from '@reactutils/use-scheduler';
 
-  const addToQueue = (fn: QueueFn) => {
-    queue.push(fn);
-    if (notRunning) {
-      notRunning = false;
-      runQueue();
-    }
-  };
+import { createQueue } from './createQueue';
+import { UseQueueOptions, UseQueueReturnType } from './types';
+
+/**
+ * @example
+ *```ts
+ *import React from 'react';
+ *import useQueue from '@reactutils/use-delayed-queue';
+ *
+ *function Notifications() {
+ *  const { addToQueue, pause, resume, size, isPaused } = useQueue(2000);
+ *
+ *  return (
+ *    <div>
+ *      <button onClick={() => addToQueue(() => toast('Saved'))}>Notify</button>
+ *      <button onClick={isPaused ? resume : pause}>
+ *        {isPaused ? 'Resume' : 'Pause'}
+ *      </button>
+ *      <p>{size} notifications waiting</p>
+ *    </div>
+ *  );
+ *}
+ *```
+ */
+const useQueue = (
+  timeout = 1000,
+  options?: UseQueueOptions
+): UseQueueReturnType => {
+  const scheduler = useScheduler(options?.scheduler);
+  const scheduling = options?.scheduling;
+  const timeoutRef = useRef(timeout);
+  const optionsRef = useRef(options);
+  const [, forceRender] = useReducer((count: number) => count + 1, 0);
+
+  /* ------- Update the references to the timeout and options on change ------- */
+  useEffect(() => {
+    timeoutRef.current = timeout;
+    optionsRef.current = options;
+  });
 
-  return { addToQueue };
+  /* ------- Keep the same queue across renders until the scheduler changes ------- */
+  const queue = useMemo(
+    () =>
+      createQueue({
+        timeout: () => timeoutRef.current,
+        options: () => optionsRef.current,
+        scheduler,
+        scheduling,
+      }),
+    [scheduler, scheduling]
+  );
+  const state = queue.getState();
+
+  /* ------- Run the tasks while mounted and re-render when the state changes ------ */
+  useEffect(() => {
+    const unsubscribe = queue.subscribe(() => forceRender());
+    // Catch up with a change that happened between rendering and subscribing.
+    if (queue.getState() !== state) forceRender();
+    queue.start();
+
+    return () => {
+      unsubscribe();
+      queue.stop();
+    };
+  }, [queue]);
+
+  return {
+    ...state,
+    addToQueue: queue.add,
+    pause: queue.pause,
+    resume: queue.resume,
+    clear: queue.clear,
+    remove: queue.remove,
+    clearDeadLetters: queue.clearDeadLetters,
+  };
 };
 
 export default useQueue;
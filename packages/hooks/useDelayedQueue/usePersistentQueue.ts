@@ -0,0 +1,223 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { isStopError } from './createQueue';
+import useQueue from './useDelayedQueue';
+import type {
+  PersistentQueueOptions,
+  QueueStorage,
+  QueueTaskId,
+  QueuedTask,
+  TaskDescriptor,
+  TaskHandlers,
+  TaskOptions,
+  UsePersistentQueueReturnType,
+} from './types';
+
+type PersistedTask = TaskDescriptor & {
+  options?: TaskOptions;
+};
+
+function isNavigatorOnline() {
+  return typeof navigator === 'undefined' || navigator.onLine !== false;
+}
+
+function getStorage(storage?: QueueStorage) {
+  if (storage) return storage;
+  return typeof window === 'undefined' ? null : window.localStorage;
+}
+
+/**
+ * @example
+ *```ts
+ *import React from 'react';
+ *import { usePersistentQueue } from '@reactutils/use-delayed-queue';
+ *
+ *const handlers = {
+ *  saveForm: (form, signal) =>
+ *    fetch('/api/forms', { method: 'POST', body: JSON.stringify(form), signal }),
+ *};
+ *
+ *function Form() {
+ *  const { addToQueue, size, isOnline } = usePersistentQueue(handlers, {
+ *    storageKey: 'form-queue',
+ *    retries: 5,
+ *  });
+ *
+ *  return (
+ *    <form onSubmit={(e) => addToQueue({ type: 'saveForm', payload: readForm(e) })}>
+ *      {!isOnline && <p>{size} forms will be sent once you're back online</p>}
+ *    </form>
+ *  );
+ *}
+ *```
+ */
+export function usePersistentQueue<H extends TaskHandlers>(
+  handlers: H,
+  options: PersistentQueueOptions
+): UsePersistentQueueReturnType<H> {
+  const { storageKey, timeout = 1000 } = options;
+  const queue = useQueue(timeout, options);
+  const { addToQueue, pause: pauseQueue, resume: resumeQueue } = queue;
+  const [isOnline, setIsOnline] = useState(isNavigatorOnline);
+  const handlersRef = useRef(handlers);
+  const storageRef = useRef(options.storage);
+  const onStorageErrorRef = useRef(options.onStorageError);
+  const entriesRef = useRef(new Map<QueueTaskId, PersistedTask>());
+  const replayedRef = useRef(false);
+  const mountedRef = useRef(false);
+  const pausedRef = useRef(false);
+  // The tasks aborted by stopping the queue while unmounted, to run again once mounted.
+  const stoppedRef = useRef<QueueTaskId[]>([]);
+
+  /* ---------- Update the references to the handlers and storage on change ---------- */
+  useEffect(() => {
+    handlersRef.current = handlers;
+    storageRef.current = options.storage;
+    onStorageErrorRef.current = options.onStorageError;
+  });
+
+  const reportStorageError = useCallback((error: unknown) => {
+    const onStorageError = onStorageErrorRef.current || console.error;
+    onStorageError(error);
+  }, []);
+
+  /* ------------- Save the descriptors of the tasks that haven't settled ------------- */
+  const persist = useCallback(() => {
+    // Until the saved tasks are replayed, writing would overwrite them.
+    if (!replayedRef.current) return;
+
+    const entries: PersistedTask[] = [];
+    entriesRef.current.forEach((entry) => entries.push(entry));
+
+    try {
+      const storage = getStorage(storageRef.current);
+      if (storage) storage.setItem(storageKey, JSON.stringify(entries));
+    } catch (error) {
+      reportStorageError(error);
+    }
+  }, [storageKey]);
+
+  /* ------------ Queue a descriptor and keep it saved until it settles ------------ */
+  const enqueue = useCallback(
+    (entry: PersistedTask): QueuedTask<unknown> => {
+      const entries = entriesRef.current;
+      const task = addToQueue((signal) => {
+        const handler = handlersRef.current[entry.type];
+        if (!handler) {
+          throw new Error(
+            `No handler is registered for "${entry.type}" tasks.`
+          );
+        }
+        return handler(entry.payload, signal);
+      }, entry.options);
+
+      if (!entries.has(task.id)) {
+        const settle = () => {
+          entries.delete(task.id);
+          persist();
+        };
+        const fail = (error: unknown) => {
+          if (!isStopError(error)) {
+            settle();
+            return;
+          }
+          // Tasks aborted by stopping the queue stay saved, and run again once it restarts.
+          if (mountedRef.current) {
+            restart(task.id);
+          } else {
+            stoppedRef.current.push(task.id);
+          }
+        };
+        task.then(settle, fail);
+        entries.set(task.id, entry);
+      } else if (entry.options?.onDuplicate !== 'keep') {
+        // The task merged into a waiting one, which now runs this descriptor.
+        entries.set(task.id, entry);
+      }
+
+      persist();
+      return task;
+    },
+    [addToQueue, persist]
+  );
+
+  /* -------- Queue a saved descriptor again under a new task id -------- */
+  const restart = useCallback(
+    (id: QueueTaskId) => {
+      const entry = entriesRef.current.get(id);
+      if (!entry) return;
+
+      entriesRef.current.delete(id);
+      enqueue(entry);
+    },
+    [enqueue]
+  );
+
+  /* --------------- Follow the connection of the browser --------------- */
+  useEffect(() => {
+    const updateOnline = () => setIsOnline(isNavigatorOnline());
+
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+    updateOnline();
+
+    return () => {
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+    };
+  }, []);
+
+  /* ------ Pause while offline, and resume unless paused by the component ------ */
+  useEffect(() => {
+    if (!isOnline) {
+      pauseQueue();
+    } else if (!pausedRef.current) {
+      resumeQueue();
+    }
+  }, [isOnline, pauseQueue, resumeQueue]);
+
+  /* ----------------- Replay the saved descriptors once mounted ----------------- */
+  useEffect(() => {
+    mountedRef.current = true;
+    stoppedRef.current.splice(0).forEach(restart);
+
+    if (!replayedRef.current) {
+      let saved: PersistedTask[] = [];
+
+      try {
+        const storage = getStorage(storageRef.current);
+        const item = storage ? storage.getItem(storageKey) : null;
+        const parsed = item ? JSON.parse(item) : [];
+        if (Array.isArray(parsed)) saved = parsed;
+      } catch (error) {
+        reportStorageError(error);
+      }
+
+      replayedRef.current = true;
+      saved.forEach(enqueue);
+      persist();
+    }
+
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  const pause = useCallback(() => {
+    pausedRef.current = true;
+    pauseQueue();
+  }, [pauseQueue]);
+
+  const resume = useCallback(() => {
+    pausedRef.current = false;
+    if (isNavigatorOnline()) resumeQueue();
+  }, [resumeQueue]);
+
+  return {
+    ...queue,
+    addToQueue: enqueue as UsePersistentQueueReturnType<H>['addToQueue'],
+    pause,
+    resume,
+    isOnline,
+  };
+}
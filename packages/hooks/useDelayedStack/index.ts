@@ -1 +1,6 @@
 export { default } from './useDelayedStack';
+export type {
+  OverflowPolicy,
+  useDelayedStackOptions,
+  useDelayedStackReturnType,
+} from './types';
@@ -1 +1,95 @@
-export type useDelayedStackReturnType<T> = [(value: T) => void, () => void];
+import type { Scheduler, SchedulingMode } from '@reactutils/use-scheduler';
+
+/**
+ * What happens to a new item once the stack holds `maxBufferSize` entries:
+ * - `dropOldest`: the oldest entry is dropped to make room.
+ * - `dropNewest`: the new item is dropped.
+ * - `block`: the new item is refused, and `pushToStack` returns `false` so the caller can
+ *   hold on to it.
+ */
+export type OverflowPolicy = 'dropOldest' | 'dropNewest' | 'block';
+
+export type useDelayedStackReturnType<T> = [
+  /**
+   * Add an item to the stack.
+   * @returns {boolean} `false` if the item was dropped or refused because the stack is
+   * full, or ignored because the stack was cancelled.
+   */
+  pushToStack: (value: T) => boolean,
+  /**
+   * Stop batching and drop the collected items. Items pushed afterwards are ignored until
+   * `restart`.
+   */
+  cancel: () => void,
+  /**
+   * Call the callback with the collected items right away.
+   */
+  flush: () => void,
+  /**
+   * Start batching again after `cancel`.
+   */
+  restart: () => void
+];
+
+export type useDelayedStackOptions<T = any> = {
+  /**
+   * The scheduler used to start the flush timer. Defaults to the closest
+   * `SchedulerProvider`, or to real time.
+   */
+  scheduler?: Scheduler;
+  /**
+   * How the flush timer waits for its turn. Defaults to `timeout`.
+   */
+  scheduling?: SchedulingMode;
+  /**
+   * Flush as soon as the stack holds this many items.
+   */
+  maxSize?: number;
+  /**
+   * Keep the JSON payload of a batch within this many bytes. The stack is flushed before
+   * an item that would go over the limit, and as soon as the limit is reached.
+   */
+  maxBytes?: number;
+  /**
+   * Identify items that describe the same thing. An item whose key is already in the stack
+   * is merged into that entry, which keeps its place.
+   */
+  getKey?: (item: T) => unknown;
+  /**
+   * Merge an item into the entry with the same key. Defaults to keeping the new item.
+   */
+  merge?: (previous: T, next: T) => T;
+  /**
+   * The number of times in a row a batch may fail before its items are dropped. A batch
+   * fails when the callback throws or its promise rejects, and its items are put back in
+   * the stack. Retries forever by default.
+   */
+  retries?: number;
+  /**
+   * The wait before sending the items of a failed batch again. It doubles with every
+   * failure in a row. Defaults to the `delay` of the hook.
+   */
+  retryDelay?: number;
+  /**
+   * The longest wait before sending the items of a failed batch again. Defaults to
+   * `30000`.
+   */
+  maxRetryDelay?: number;
+  /**
+   * Called with the error and the items of a batch that failed for the last time.
+   */
+  onError?: (error: unknown, data: T[]) => void;
+  /**
+   * The most entries the stack holds while batches are failing or in flight.
+   */
+  maxBufferSize?: number;
+  /**
+   * What happens to a new item once the stack holds `maxBufferSize` entries. Defaults to
+   * `dropOldest`.
+   */
+  overflow?: OverflowPolicy;
+  /**
+   * Called with the items dropped by the `dropOldest` and `dropNewest` policies.
+   */
+  onDrop?: (data: T[]) => void;
+};
@@ -1,44 +1,392 @@
-import { useRef, useEffect } from 'react';
-import { useDelayedStackReturnType } from './types';
+import { useRef, useEffect, useCallback } from 'react';
+import useScheduler from '@reactutils/use-scheduler';
+import type { Scheduler, TaskHandle } from '@reactutils/use-scheduler';
 
+import { useDelayedStackOptions, useDelayedStackReturnType } from './types';
+
+// The UTF-8 size of an item in a JSON payload.
+const getByteSize = (value: unknown) => {
+  const json = JSON.stringify(value) ?? 'null';
+  return typeof TextEncoder === 'undefined'
+    ? json.length
+    : new TextEncoder().encode(json).length;
+};
+
+// Items with the same key are last-write-wins by default.
+const keepNext = <T>(previous: T, next: T) => next;
+
+// The brackets and the commas between the items of a JSON array.
+const getPayloadSize = (count: number, bytes: number) =>
+  count ? bytes + count + 1 : 2;
+
+/**
+ * @example
+ *```ts
+ *import React from 'react';
+ *import useDelayedStack from '@reactutils/use-delayed-stack';
+ *
+ *function Tracker({ children }) {
+ *  const [track, , flush] = useDelayedStack(
+ *    (events) => api.sendEvents(events),
+ *    5000,
+ *    [],
+ *    { maxSize: 50, maxBytes: 64 * 1024, retries: 3, maxBufferSize: 500 }
+ *  );
+ *
+ *  return (
+ *    <div onClick={(e) => track({ type: 'click', target: e.target.id })}>
+ *      {children}
+ *      <button onClick={flush}>Send now</button>
+ *    </div>
+ *  );
+ *}
+ *```
+ */
 const useDelayedStack = <T>(
-  callback: (data: T[]) => void,
+  callback: (data: T[]) => void | PromiseLike<unknown>,
   delay: number = 1000,
-  initialValue: T[] = []
+  initialValue: T[] = [],
+  options?: useDelayedStackOptions<T>
 ): useDelayedStackReturnType<T> => {
+  const scheduler = useScheduler(options?.scheduler);
+  const schedulerRef = useRef(scheduler);
   const stackRef = useRef<T[]>(initialValue);
-  const timerRef = useRef<NodeJS.Timeout | string | number | undefined>(
-    undefined
-  );
-  const abortController = new AbortController();
+  // The byte size of the collected items, measured once `maxBytes` is set.
+  const bytesRef = useRef<number | null>(null);
+  // The index of the entry for each key, built once `getKey` is set.
+  const keysRef = useRef<Map<unknown, number> | null>(null);
+  const timerRef = useRef<
+    { handle: TaskHandle; scheduler: Scheduler } | undefined
+  >(undefined);
+  const callbackRef = useRef(callback);
+  const delayRef = useRef(delay);
+  const optionsRef = useRef(options);
+  const mountedRef = useRef(true);
+  /* ------ Track the batches in flight and the failures in a row ------ */
+  const inFlightRef = useRef(0);
+  const failuresRef = useRef(0);
+  const flushRequestedRef = useRef(false);
+  // Set by `cancel` until `restart`, for as long as the component is mounted.
+  const cancelledRef = useRef(false);
 
+  /* -- Update the references to the callback, delay, options and scheduler on change -- */
   useEffect(() => {
-    timerRef.current = setInterval(() => {
-      if (stackRef.current.length) {
-        callback([...stackRef.current]);
-        stackRef.current = [];
+    schedulerRef.current = scheduler;
+    callbackRef.current = callback;
+    delayRef.current = delay;
+    optionsRef.current = options;
+  });
+
+  /* -------- Measure the stack again the next time its sizes are needed -------- */
+  const setStack = useCallback((stack: T[]) => {
+    stackRef.current = stack;
+    bytesRef.current = keysRef.current = null;
+  }, []);
+
+  const getBytes = useCallback(() => {
+    if (bytesRef.current === null) {
+      bytesRef.current = stackRef.current.reduce(
+        (bytes, item) => bytes + getByteSize(item),
+        0
+      );
+    }
+    return bytesRef.current;
+  }, []);
+
+  const getKeys = useCallback((getKey: (item: T) => unknown) => {
+    if (keysRef.current === null) {
+      const keys = new Map<unknown, number>();
+      stackRef.current.forEach((item, index) => {
+        const key = getKey(item);
+        if (!keys.has(key)) keys.set(key, index);
+      });
+      keysRef.current = keys;
+    }
+    return keysRef.current;
+  }, []);
+
+  const isFull = useCallback(() => {
+    const { maxSize, maxBytes } = optionsRef.current || {};
+    const count = stackRef.current.length;
+
+    return (
+      (maxSize !== undefined && count >= maxSize) ||
+      (maxBytes !== undefined && getPayloadSize(count, getBytes()) >= maxBytes)
+    );
+  }, []);
+
+  const stopTimer = useCallback(() => {
+    const timer = timerRef.current;
+    if (timer) timer.scheduler.cancel(timer.handle);
+    timerRef.current = undefined;
+  }, []);
+
+  /* ---------------- Hand everything collected to the callback ---------------- */
+  const send = useCallback((force: boolean) => {
+    stopTimer();
+    if (cancelledRef.current || !stackRef.current.length) return;
+
+    // Only one batch is in flight at a time, unless the page or the hook is going away.
+    if (inFlightRef.current && !force) {
+      flushRequestedRef.current = true;
+      return;
+    }
+
+    const data = stackRef.current;
+    setStack([]);
+    flushRequestedRef.current = false;
+
+    const settle = (failed: boolean, error?: unknown) => {
+      const {
+        retries,
+        retryDelay = delayRef.current,
+        maxRetryDelay = 30000,
+        onError,
+      } = optionsRef.current || {};
+
+      // A cancelled stack drops everything, including a batch that failed meanwhile.
+      if (cancelledRef.current) return;
+      failuresRef.current = failed ? failuresRef.current + 1 : 0;
+
+      if (failed) {
+        if (
+          !mountedRef.current ||
+          (retries !== undefined && failuresRef.current > retries)
+        ) {
+          failuresRef.current = 0;
+          onError?.(error, data);
+        } else {
+          requeue(data);
+          // Wait longer after every failure in a row before sending again, even when an
+          // item pushed meanwhile already started the timer.
+          stopTimer();
+          startTimer(
+            Math.min(
+              retryDelay * Math.pow(2, failuresRef.current - 1),
+              maxRetryDelay
+            )
+          );
+          return;
+        }
+      }
+
+      if (!stackRef.current.length) return;
+      if (flushRequestedRef.current || isFull()) {
+        send(false);
+      } else {
+        startTimer();
       }
-    }, delay);
+    };
+
+    let result: void | PromiseLike<unknown>;
+    try {
+      result = callbackRef.current(data);
+    } catch (error) {
+      settle(true, error);
+      return;
+    }
+
+    if (result && typeof result.then === 'function') {
+      inFlightRef.current++;
+      result.then(
+        () => {
+          inFlightRef.current--;
+          settle(false);
+        },
+        (error) => {
+          inFlightRef.current--;
+          settle(true, error);
+        }
+      );
+    } else {
+      settle(false);
+    }
+  }, []);
+
+  const flush = useCallback(() => send(false), []);
+
+  /* ---- Send a full batch, or leave it to the backoff after a failed batch ---- */
+  const sendFull = useCallback(() => {
+    if (failuresRef.current > 0 && timerRef.current !== undefined) {
+      flushRequestedRef.current = true;
+      return;
+    }
+    send(false);
+  }, []);
 
-    abortController.signal.addEventListener('abort', () => {
-      clearInterval(timerRef.current);
+  // The timer only runs while there is something to flush.
+  const startTimer = useCallback((wait: number = delayRef.current) => {
+    if (timerRef.current !== undefined || !stackRef.current.length) return;
+
+    const scheduler = schedulerRef.current;
+    timerRef.current = {
+      handle: scheduler.schedule(flush, wait, optionsRef.current?.scheduling),
+      scheduler,
+    };
+  }, []);
+
+  /* --------- Put the items of a failed batch back in front of the stack --------- */
+  const requeue = useCallback((data: T[]) => {
+    const {
+      getKey,
+      merge = keepNext,
+      maxBufferSize,
+      overflow = 'dropOldest',
+      onDrop,
+    } = optionsRef.current || {};
+    let stack = data;
+
+    stackRef.current.forEach((item) => {
+      const index = getKey
+        ? stack.findIndex((entry) => getKey(entry) === getKey(item))
+        : -1;
+      stack =
+        index === -1
+          ? [...stack, item]
+          : stack.map((entry, entryIndex) =>
+              entryIndex === index ? merge(entry, item) : entry
+            );
     });
 
+    // Items that were already accepted can't be refused, so `block` keeps them all.
+    if (
+      maxBufferSize !== undefined &&
+      stack.length > maxBufferSize &&
+      overflow !== 'block'
+    ) {
+      const dropped =
+        overflow === 'dropOldest'
+          ? stack.slice(0, stack.length - maxBufferSize)
+          : stack.slice(maxBufferSize);
+      stack =
+        overflow === 'dropOldest'
+          ? stack.slice(stack.length - maxBufferSize)
+          : stack.slice(0, maxBufferSize);
+      onDrop?.(dropped);
+    }
+
+    setStack(stack);
+  }, []);
+
+  const pushToStack = useCallback((value: T) => {
+    if (cancelledRef.current) return false;
+
+    const {
+      maxBytes,
+      getKey,
+      merge = keepNext,
+      maxBufferSize,
+      overflow = 'dropOldest',
+      onDrop,
+    } = optionsRef.current || {};
+    const key = getKey ? getKey(value) : undefined;
+    let index = getKey ? getKeys(getKey).get(key) : undefined;
+
+    /* ---- Make room for a new entry once the stack holds `maxBufferSize` ---- */
+    if (
+      index === undefined &&
+      maxBufferSize !== undefined &&
+      stackRef.current.length >= maxBufferSize
+    ) {
+      if (overflow === 'block') return false;
+      if (overflow === 'dropNewest') {
+        onDrop?.([value]);
+        return false;
+      }
+
+      const excess = stackRef.current.length - maxBufferSize + 1;
+      const dropped = stackRef.current.slice(0, excess);
+      setStack(stackRef.current.slice(excess));
+      onDrop?.(dropped);
+    }
+
+    let item =
+      index === undefined ? value : merge(stackRef.current[index], value);
+
+    if (maxBytes !== undefined && stackRef.current.length) {
+      const replacedSize =
+        index === undefined ? 0 : getByteSize(stackRef.current[index]);
+      const count = stackRef.current.length + (index === undefined ? 1 : 0);
+      const bytes = getBytes() - replacedSize + getByteSize(item);
+
+      // Send the items collected so far if this one would take the batch over the limit.
+      if (getPayloadSize(count, bytes) > maxBytes) {
+        sendFull();
+        // While a batch is in flight the items stay, and so does the entry to merge into.
+        if (!stackRef.current.length) {
+          index = undefined;
+          item = value;
+        }
+      }
+    }
+
+    const bytes = bytesRef.current;
+    if (index === undefined) {
+      if (getKey) getKeys(getKey).set(key, stackRef.current.length);
+      stackRef.current = [...stackRef.current, item];
+    } else {
+      const replacedIndex = index;
+      const replacedSize =
+        bytes === null ? 0 : getByteSize(stackRef.current[replacedIndex]);
+      stackRef.current = stackRef.current.map((current, currentIndex) =>
+        currentIndex === replacedIndex ? item : current
+      );
+      bytesRef.current = bytes === null ? null : bytes - replacedSize;
+    }
+    if (bytesRef.current !== null) bytesRef.current += getByteSize(item);
+
+    if (isFull()) {
+      sendFull();
+    } else {
+      startTimer();
+    }
+    return true;
+  }, []);
+
+  /* ------- Flush what is left when the page is hidden or the hook unmounts ------- */
+  useEffect(() => {
+    const sendNow = () => send(true);
+
+    mountedRef.current = true;
+    startTimer();
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') sendNow();
+    };
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', sendNow);
+      document.addEventListener('visibilitychange', handleVisibilityChange);
+    }
+
     return () => {
-      clearInterval(timerRef.current);
-      abortController?.abort();
+      if (typeof window !== 'undefined') {
+        window.removeEventListener('pagehide', sendNow);
+        document.removeEventListener(
+          'visibilitychange',
+          handleVisibilityChange
+        );
+      }
+      mountedRef.current = false;
+      sendNow();
     };
-  }, [callback, delay, abortController]);
+  }, []);
 
-  const pushToStack = (value: T) =>
-    (stackRef.current = [...stackRef.current, value]);
+  /* -------- Stop batching until `restart`, dropping the collected items -------- */
+  const cancel = useCallback(() => {
+    cancelledRef.current = true;
+    stopTimer();
+    setStack([]);
+    flushRequestedRef.current = false;
+    failuresRef.current = 0;
+  }, []);
 
-  const cancel = () => {
-    clearInterval(timerRef.current);
-    abortController?.abort();
-  };
+  const restart = useCallback(() => {
+    cancelledRef.current = false;
+    startTimer();
+  }, []);
 
-  return [pushToStack, cancel];
+  return [pushToStack, cancel, flush, restart];
 };
 
 export default useDelayedStack;
@@ -0,0 +1,173 @@
+import type { StorageAdapter } from './types';
+
+type Listener = () => void;
+
+type AsyncEntry = {
+  item: string | null;
+  isLoading: boolean;
+  // Set when the item changed outside the page, so it's read again.
+  isStale: boolean;
+  // Bumped by every write, so a read that started before it is ignored.
+  revision: number;
+};
+
+export type AdapterStore = {
+  /**
+   * Returns the item, or starts reading it from an async adapter. `onError` is called if
+   * that read fails. Defaults to `console.error`.
+   */
+  getItem: (key: string, onError?: (error: unknown) => void) => string | null;
+  isLoading: (key: string) => boolean;
+  /**
+   * `true` once the adapter returned a promise, after which its items may still be loading.
+   */
+  isAsync: () => boolean;
+  /**
+   * Write without notifying, e.g. while rendering. Call `notify` afterwards. Returns the
+   * promise of an async adapter.
+   */
+  setItem: (key: string, item: string) => void | PromiseLike<void>;
+  removeItem: (key: string) => void | PromiseLike<void>;
+  notify: (key: string) => void;
+  subscribe: (key: string, listener: Listener) => () => void;
+};
+
+const stores = new WeakMap<StorageAdapter, AdapterStore>();
+
+function isPromiseLike<T>(value: unknown): value is PromiseLike<T> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as PromiseLike<T>).then === 'function'
+  );
+}
+
+/* ------------ Share the items and the listeners of an adapter per key ------------ */
+function createAdapterStore(adapter: StorageAdapter): AdapterStore {
+  const listeners = new Map<string, Set<Listener>>();
+  // Filled once the adapter returned a promise, and read instead of the adapter from then on.
+  let entries: Map<string, AsyncEntry> | null = null;
+  let unsubscribeAdapter: (() => void) | undefined;
+
+  const notify = (key: string) => {
+    const keyListeners = listeners.get(key);
+    if (keyListeners) keyListeners.forEach((listener) => listener());
+  };
+
+  const load = (
+    key: string,
+    entry: AsyncEntry,
+    promise: PromiseLike<unknown>,
+    onError: (error: unknown) => void
+  ) => {
+    const { revision } = entry;
+    entry.isLoading = true;
+    entry.isStale = false;
+
+    promise.then(
+      (item) => {
+        if (entry.revision !== revision) return;
+        entry.item = typeof item === 'string' ? item : null;
+        entry.isLoading = false;
+        notify(key);
+      },
+      (error) => {
+        onError(error);
+        if (entry.revision !== revision) return;
+        entry.isLoading = false;
+        notify(key);
+      }
+    );
+  };
+
+  const getEntry = (key: string, onError: (error: unknown) => void) => {
+    let entry = entries && entries.get(key);
+    if (entry && !entry.isStale) return entry;
+
+    const result = adapter.getItem(key);
+    if (!isPromiseLike(result)) return result;
+
+    if (!entry) {
+      entry = { item: null, isLoading: false, isStale: false, revision: 0 };
+      entries = entries || new Map();
+      entries.set(key, entry);
+    }
+    load(key, entry, result, onError);
+    return entry;
+  };
+
+  const write = (key: string, item: string | null) => {
+    const entry = entries && entries.get(key);
+    if (entry) {
+      entry.item = item;
+      entry.isLoading = entry.isStale = false;
+      entry.revision++;
+    }
+
+    const result =
+      item === null ? adapter.removeItem(key) : adapter.setItem(key, item);
+    if (isPromiseLike(result) && !entry) {
+      entries = entries || new Map();
+      entries.set(key, { item, isLoading: false, isStale: false, revision: 0 });
+    }
+    return result;
+  };
+
+  /* ------- Read the items changed outside the page again, e.g. in other tabs ------- */
+  const handleAdapterChange = (key: string | null) => {
+    if (entries) {
+      entries.forEach((entry, entryKey) => {
+        if (key === null || key === entryKey) entry.isStale = true;
+      });
+    }
+    if (key === null) {
+      listeners.forEach((keyListeners, listenerKey) => notify(listenerKey));
+    } else {
+      notify(key);
+    }
+  };
+
+  return {
+    getItem: (key, onError = console.error) => {
+      const entry = getEntry(key, onError);
+      return entry === null || typeof entry === 'string' ? entry : entry.item;
+    },
+    isLoading: (key) => {
+      const entry = entries && entries.get(key);
+      return !!entry && entry.isLoading;
+    },
+    isAsync: () => entries !== null,
+    setItem: write,
+    removeItem: (key) => write(key, null),
+    notify,
+    subscribe: (key, listener) => {
+      if (!listeners.size && adapter.subscribe) {
+        unsubscribeAdapter = adapter.subscribe(handleAdapterChange);
+      }
+
+      const keyListeners = listeners.get(key) || new Set<Listener>();
+      keyListeners.add(listener);
+      listeners.set(key, keyListeners);
+
+      return () => {
+        keyListeners.delete(listener);
+        if (!keyListeners.size && listeners.get(key) === keyListeners) {
+          listeners.delete(key);
+        }
+        if (!listeners.size && unsubscribeAdapter) {
+          unsubscribeAdapter();
+          unsubscribeAdapter = undefined;
+        }
+      };
+    },
+  };
+}
+
+export function getAdapterStore(adapter: StorageAdapter) {
+  let store = stores.get(adapter);
+  if (!store) {
+    store = createAdapterStore(adapter);
+    stores.set(adapter, store);
+  }
+  return store;
+}
@@ -0,0 +1,175 @@
+import type {
+  CookieAdapterOptions,
+  IndexedDBAdapterOptions,
+  StorageAdapter,
+} from './types';
+
+/* ----- Web Storage, with the changes made in other tabs from the `storage` event ----- */
+function createWebStorageAdapter(
+  getStorage: () => Storage | null
+): StorageAdapter {
+  // Reading the storage throws when cookies are blocked, e.g. in sandboxed iframes, and the
+  // error goes to the caller.
+  const getAvailableStorage = () =>
+    typeof window === 'undefined' ? null : getStorage();
+
+  return {
+    getItem: (key) => {
+      const storage = getAvailableStorage();
+      return storage ? storage.getItem(key) : null;
+    },
+    setItem: (key, item) => {
+      const storage = getAvailableStorage();
+      if (storage) storage.setItem(key, item);
+    },
+    removeItem: (key) => {
+      const storage = getAvailableStorage();
+      if (storage) storage.removeItem(key);
+    },
+    subscribe: (listener) => {
+      if (typeof window === 'undefined') return () => {};
+
+      const handleStorage = (event: StorageEvent) => {
+        try {
+          if (event.storageArea === getAvailableStorage()) listener(event.key);
+        } catch (error) {
+          // The changes of a storage that can't be read are ignored.
+        }
+      };
+
+      window.addEventListener('storage', handleStorage);
+      return () => window.removeEventListener('storage', handleStorage);
+    },
+  };
+}
+
+export const localStorageAdapter = createWebStorageAdapter(
+  () => window.localStorage
+);
+
+export const sessionStorageAdapter = createWebStorageAdapter(
+  () => window.sessionStorage
+);
+
+/**
+ * Keeps the items in a `Map`, e.g. in tests or on the server. Every adapter has its own map.
+ */
+export function createMemoryAdapter(
+  initialItems?: Record<string, string>
+): StorageAdapter {
+  const items = new Map<string, string>();
+  if (initialItems) {
+    Object.keys(initialItems).forEach((key) =>
+      items.set(key, initialItems[key])
+    );
+  }
+
+  return {
+    getItem: (key) => (items.has(key) ? (items.get(key) as string) : null),
+    setItem: (key, item) => {
+      items.set(key, item);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+}
+
+/**
+ * Stores the items in cookies, so they are sent to the server as well. Keep them small:
+ * browsers limit cookies to about 4KB each.
+ */
+export function createCookieAdapter(
+  options: CookieAdapterOptions = {}
+): StorageAdapter {
+  const {
+    path = '/',
+    domain,
+    maxAge = 60 * 60 * 24 * 365,
+    sameSite = 'lax',
+    secure,
+  } = options;
+
+  const writeCookie = (key: string, item: string, age: number) => {
+    if (typeof document === 'undefined') return;
+
+    let cookie = `${encodeURIComponent(key)}=${encodeURIComponent(
+      item
+    )}; path=${path}; max-age=${age}; samesite=${sameSite}`;
+    if (domain) cookie += `; domain=${domain}`;
+    if (secure) cookie += '; secure';
+    document.cookie = cookie;
+  };
+
+  return {
+    getItem: (key) => {
+      if (typeof document === 'undefined') return null;
+
+      const name = `${encodeURIComponent(key)}=`;
+      const cookies = document.cookie ? document.cookie.split('; ') : [];
+      for (let index = 0; index < cookies.length; index++) {
+        if (cookies[index].indexOf(name) === 0) {
+          return decodeURIComponent(cookies[index].slice(name.length));
+        }
+      }
+      return null;
+    },
+    setItem: (key, item) => writeCookie(key, item, maxAge),
+    removeItem: (key) => writeCookie(key, '', 0),
+  };
+}
+
+/**
+ * Stores the items in an IndexedDB object store, which holds far more than `localStorage`.
+ * The items are read asynchronously, so the hook reports `isLoading` until they arrive.
+ */
+export function createIndexedDBAdapter(
+  options: IndexedDBAdapterOptions = {}
+): StorageAdapter {
+  const { databaseName = 'reactutils', storeName = 'storage' } = options;
+  let database: Promise<IDBDatabase> | undefined;
+
+  const openDatabase = () => {
+    if (!database) {
+      database = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(databaseName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(storeName);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Try again on the next request after failing to open.
+      database.then(undefined, () => {
+        database = undefined;
+      });
+    }
+    return database;
+  };
+
+  const request = <R>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest
+  ) =>
+    openDatabase().then(
+      (db) =>
+        new Promise<R>((resolve, reject) => {
+          const transaction = db.transaction(storeName, mode);
+          const storeRequest = run(transaction.objectStore(storeName));
+          transaction.oncomplete = () => resolve(storeRequest.result);
+          transaction.onerror = transaction.onabort = () =>
+            reject(transaction.error);
+        })
+    );
+
+  return {
+    getItem: (key) =>
+      request<unknown>('readonly', (store) => store.get(key)).then((item) =>
+        typeof item === 'string' ? item : null
+      ),
+    setItem: (key, item) =>
+      request<void>('readwrite', (store) => store.put(item, key)),
+    removeItem: (key) =>
+      request<void>('readwrite', (store) => store.delete(key)),
+  };
+}
@@ -0,0 +1,125 @@
+import { localStorageAdapter } from './adapters';
+import { getAdapterStore } from './adapterStore';
+import { isExpiredItem, unwrapItem } from './items';
+import { jsonSerializer } from './serializers';
+import type { StorageStore, StorageStoreOptions } from './types';
+import useLocalStorage from './useLocalStorage';
+
+/**
+ * @example
+ *```ts
+ *import React from 'react';
+ *import { createStorageStore } from '@reactutils/use-local-storage';
+ *
+ *const settings = createStorageStore({
+ *  namespace: 'settings',
+ *  defaults: { theme: 'light' as 'light' | 'dark', fontSize: 14 },
+ *});
+ *
+ *function FontSize() {
+ *  const [fontSize, setFontSize] = settings.useStoredValue('fontSize');
+ *
+ *  return (
+ *    <input type="number" value={fontSize} onChange={(e) => setFontSize(+e.target.value)} />
+ *  );
+ *}
+ *
+ *function logout() {
+ *  // Every component reading a key of the store updates.
+ *  settings.clear();
+ *}
+ *```
+ */
+export function createStorageStore<Schema extends object>(
+  options: StorageStoreOptions<Schema>
+): StorageStore<Schema> {
+  const {
+    namespace,
+    defaults,
+    storage = localStorageAdapter,
+    serializer = jsonSerializer,
+    onError = console.error,
+  } = options;
+  const store = getAdapterStore(storage);
+  const hookOptions = {
+    storage,
+    serializer,
+    onError,
+    ssr: options.ssr,
+  };
+  const getStorageKey = (key: string) => `${namespace}:${key}`;
+
+  const reportAsyncError = (result: void | PromiseLike<void>) => {
+    if (result) result.then(undefined, onError);
+  };
+
+  /* ---- Read the stored value of a key, removing it once it expired ---- */
+  const getStoredItem = (storageKey: string) => {
+    const item = store.getItem(storageKey, onError);
+    if (item === null) return null;
+
+    const stored = unwrapItem(item);
+    if (!isExpiredItem(stored)) return stored;
+
+    reportAsyncError(store.removeItem(storageKey));
+    return null;
+  };
+
+  const get = <K extends keyof Schema & string>(key: K): Schema[K] => {
+    try {
+      const stored = getStoredItem(getStorageKey(key));
+      return stored === null ? defaults[key] : serializer.parse(stored.value);
+    } catch (error) {
+      onError(error);
+      return defaults[key];
+    }
+  };
+
+  /* -------- Write outside the hooks, and update every hook reading the key -------- */
+  const set = <K extends keyof Schema & string>(
+    key: K,
+    value: Schema[K] | ((val: Schema[K]) => Schema[K])
+  ) => {
+    const storageKey = getStorageKey(key);
+    try {
+      const valueToStore = value instanceof Function ? value(get(key)) : value;
+      reportAsyncError(
+        store.setItem(storageKey, serializer.stringify(valueToStore))
+      );
+    } catch (error) {
+      onError(error);
+    }
+    store.notify(storageKey);
+  };
+
+  const remove = (key: keyof Schema & string) => {
+    const storageKey = getStorageKey(key);
+    try {
+      reportAsyncError(store.removeItem(storageKey));
+    } catch (error) {
+      onError(error);
+    }
+    store.notify(storageKey);
+  };
+
+  // The keys of the store are the keys of its defaults.
+  const schemaKeys = Object.keys(defaults) as (keyof Schema & string)[];
+
+  return {
+    useStoredValue: (key) =>
+      useLocalStorage(getStorageKey(key), defaults[key], hookOptions),
+    get,
+    set,
+    remove,
+    clear: () => schemaKeys.forEach(remove),
+    keys: () =>
+      schemaKeys.filter((key) => {
+        try {
+          return getStoredItem(getStorageKey(key)) !== null;
+        } catch (error) {
+          onError(error);
+          return false;
+        }
+      }),
+  };
+}
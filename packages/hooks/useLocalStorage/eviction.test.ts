@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+
+import { createMemoryAdapter } from './adapters';
+import { getAdapterStore } from './adapterStore';
+import { touchKey } from './eviction';
+import type { StorageAdapter } from './types';
+
+describe('touchKey', () => {
+  it('evicts the least recently used keys past `maxKeys`', () => {
+    const adapter = createMemoryAdapter({ a: '1', b: '2', c: '3' });
+    const store = getAdapterStore(adapter);
+    const errors: unknown[] = [];
+    const onError = (error: unknown) => errors.push(error);
+    const eviction = { namespace: 'test', maxKeys: 2 };
+
+    touchKey(store, eviction, 'a', onError);
+    touchKey(store, eviction, 'b', onError);
+    touchKey(store, eviction, 'a', onError);
+    touchKey(store, eviction, 'c', onError);
+
+    expect(adapter.getItem('b')).toBeNull();
+    expect(adapter.getItem('a')).toBe('1');
+    expect(adapter.getItem('test:lru')).toBe('["a","c"]');
+    expect(errors).toEqual([]);
+  });
+
+  it('refuses async adapters rather than overwrite their index', async () => {
+    const memory = createMemoryAdapter({ 'test:lru': '["a","b"]' });
+    const adapter: StorageAdapter = {
+      getItem: (key) => Promise.resolve(memory.getItem(key)),
+      setItem: (key, item) => Promise.resolve(memory.setItem(key, item)),
+      removeItem: (key) => Promise.resolve(memory.removeItem(key)),
+    };
+    const store = getAdapterStore(adapter);
+    const eviction = { namespace: 'test', maxKeys: 2 };
+
+    expect(() => touchKey(store, eviction, 'c', () => {})).toThrow(
+      'synchronously'
+    );
+    await Promise.resolve();
+    expect(memory.getItem('test:lru')).toBe('["a","b"]');
+  });
+});
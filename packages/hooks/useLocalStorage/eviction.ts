@@ -0,0 +1,90 @@
+import type { AdapterStore } from './adapterStore';
+import type { EvictionOptions } from './types';
+
+// The keys of a namespace, from the least to the most recently used.
+const getIndexKey = (namespace: string) => `${namespace}:lru`;
+
+type ErrorHandler = (error: unknown) => void;
+
+function reportAsyncError(
+  result: void | PromiseLike<void>,
+  onError: ErrorHandler
+) {
+  if (result) result.then(undefined, onError);
+}
+
+function readIndex(
+  store: AdapterStore,
+  namespace: string,
+  onError: ErrorHandler
+): string[] {
+  const item = store.getItem(getIndexKey(namespace), onError);
+  // The index of an async adapter is missing while it loads, and touching a key would
+  // overwrite it, so eviction is refused for them.
+  if (store.isAsync()) {
+    throw new Error(
+      'Eviction needs a storage adapter that returns its items synchronously.'
+    );
+  }
+
+  try {
+    const parsed = JSON.parse(item || '[]');
+    return Array.isArray(parsed)
+      ? parsed.filter((key) => typeof key === 'string')
+      : [];
+  } catch (error) {
+    return [];
+  }
+}
+
+function removeKeys(
+  store: AdapterStore,
+  keys: string[],
+  onError: ErrorHandler
+) {
+  keys.forEach((key) => reportAsyncError(store.removeItem(key), onError));
+  keys.forEach((key) => store.notify(key));
+}
+
+/* --------- Mark a key as the most recently used, and evict past `maxKeys` --------- */
+export function touchKey(
+  store: AdapterStore,
+  { namespace, maxKeys }: EvictionOptions,
+  key: string,
+  onError: ErrorHandler
+) {
+  const index = readIndex(store, namespace, onError).filter(
+    (entry) => entry !== key
+  );
+  index.push(key);
+
+  const evicted =
+    maxKeys === undefined
+      ? []
+      : index.splice(0, Math.max(index.length - maxKeys, 0));
+  removeKeys(store, evicted, onError);
+  reportAsyncError(
+    store.setItem(getIndexKey(namespace), JSON.stringify(index)),
+    onError
+  );
+}
+
+/* ------ Make room by removing the least recently used key but the one given ------ */
+export function evictOldest(
+  store: AdapterStore,
+  { namespace }: EvictionOptions,
+  keptKey: string,
+  onError: ErrorHandler
+) {
+  const index = readIndex(store, namespace, onError);
+  const position = index.findIndex((key) => key !== keptKey);
+  if (position === -1) return false;
+
+  const evicted = index.splice(position, 1);
+  removeKeys(store, evicted, onError);
+  reportAsyncError(
+    store.setItem(getIndexKey(namespace), JSON.stringify(index)),
+    onError
+  );
+  return true;
+}
@@ -1 +1,21 @@
 export { default } from './useLocalStorage';
+export { createStorageStore } from './createStorageStore';
+export {
+  createCookieAdapter,
+  createIndexedDBAdapter,
+  createMemoryAdapter,
+  localStorageAdapter,
+  sessionStorageAdapter,
+} from './adapters';
+export { jsonSerializer, rawSerializer, taggedSerializer } from './serializers';
+export type {
+  CookieAdapterOptions,
+  EvictionOptions,
+  IndexedDBAdapterOptions,
+  Serializer,
+  StorageAdapter,
+  StorageStore,
+  StorageStoreOptions,
+  UseLocalStorageOptions,
+  UseLocalStorageStatus,
+} from './types';
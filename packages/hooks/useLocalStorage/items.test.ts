@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+
+import { createMemoryAdapter } from './adapters';
+import { createStorageStore } from './createStorageStore';
+import { readItem, unwrapItem, wrapItem } from './items';
+import { jsonSerializer, taggedSerializer } from './serializers';
+
+describe('wrapItem', () => {
+  it('stores the value as it is without a version or an expiry', () => {
+    expect(wrapItem({ value: '"hello"' })).toBe('"hello"');
+    expect(unwrapItem('"hello"')).toEqual({ value: '"hello"' });
+  });
+
+  it('gives back the version and the expiry', () => {
+    const item = wrapItem({ value: '"hello"', version: 2, expiresAt: 1000 });
+
+    expect(unwrapItem(item)).toEqual({
+      value: '"hello"',
+      version: 2,
+      expiresAt: 1000,
+    });
+  });
+
+  it('does not unwrap a stored value shaped like a wrapper', () => {
+    const value = { value: '"quoted"', version: 1 };
+    const item = jsonSerializer.stringify(value);
+
+    expect(unwrapItem(item)).toEqual({ value: item });
+    expect(readItem(item, { serializer: jsonSerializer })).toEqual({
+      value,
+      expiresAt: undefined,
+    });
+  });
+});
+
+describe('readItem', () => {
+  it('counts an expired item as absent', () => {
+    const item = wrapItem({ value: '1', expiresAt: Date.now() - 1 });
+
+    expect(readItem(item, { serializer: jsonSerializer })).toBeNull();
+  });
+
+  it('migrates a value stored with another version', () => {
+    const item = wrapItem({ value: '["a","b"]' });
+    const read = readItem(item, {
+      serializer: taggedSerializer,
+      version: 1,
+      migrate: (oldValue: string[], oldVersion) =>
+        new Set(oldValue.concat(String(oldVersion))),
+    });
+
+    expect(read && read.value).toEqual(new Set(['a', 'b', '0']));
+    // The migrated value is stored again with the current version.
+    expect(
+      readItem(read!.migratedItem!, {
+        serializer: taggedSerializer,
+        version: 1,
+      })
+    ).toEqual({ value: new Set(['a', 'b', '0']), expiresAt: undefined });
+  });
+
+  it('does not migrate a value stored with the current version', () => {
+    const item = wrapItem({ value: '"hello"', version: 1 });
+    const read = readItem(item, {
+      serializer: jsonSerializer,
+      version: 1,
+      migrate: () => 'migrated',
+    });
+
+    expect(read).toEqual({ value: 'hello', expiresAt: undefined });
+  });
+});
+
+describe('taggedSerializer', () => {
+  it('keeps the values JSON cannot represent', () => {
+    const value = {
+      date: new Date(0),
+      map: new Map([['a', new Set([1, NaN])]]),
+      missing: undefined,
+      negativeZero: -0,
+      pattern: /a+/gi,
+    };
+    const parsed = taggedSerializer.parse(taggedSerializer.stringify(value));
+
+    expect(parsed).toEqual(value);
+    expect(Object.is(parsed.negativeZero, -0)).toBe(true);
+  });
+});
+
+describe('createStorageStore', () => {
+  it('reads back values shaped like a wrapper', () => {
+    const errors: unknown[] = [];
+    const store = createStorageStore({
+      namespace: 'test',
+      defaults: { draft: null as unknown },
+      storage: createMemoryAdapter(),
+      onError: (error) => errors.push(error),
+    });
+
+    store.set('draft', { value: 'hello world', version: 3 });
+    expect(store.get('draft')).toEqual({ value: 'hello world', version: 3 });
+
+    store.set('draft', { value: '"quoted"', version: 1 });
+    expect(store.get('draft')).toEqual({ value: '"quoted"', version: 1 });
+    expect(errors).toEqual([]);
+  });
+});
@@ -0,0 +1,110 @@
+import type { Serializer, UseLocalStorageOptions } from './types';
+
+/**
+ * An item that carries a version or an expiry wraps the serialized value, whatever the
+ * serializer produces.
+ */
+export type WrappedItem = {
+  value: string;
+  version?: number;
+  // The time, in milliseconds since the epoch, after which the item counts as absent.
+  expiresAt?: number;
+};
+
+/**
+ * What reading a stored item gives: its value, and the item to store instead when the value
+ * was migrated.
+ */
+export type ReadItem<T> = {
+  value: T;
+  expiresAt?: number;
+  migratedItem?: string;
+};
+
+type ReadItemOptions<T> = Pick<
+  UseLocalStorageOptions<T>,
+  'version' | 'migrate'
+> & {
+  serializer: Serializer;
+};
+
+// Marks the wrappers, so a stored value of the same shape is never taken for one.
+const WRAPPER_KEY = '$reactutils';
+const WRAPPER_VERSION = 1;
+
+function isWrappedItem(parsed: unknown): parsed is WrappedItem {
+  if (typeof parsed !== 'object' || parsed === null) return false;
+
+  const { value, version, expiresAt } = parsed as WrappedItem;
+  return (
+    (parsed as Record<string, unknown>)[WRAPPER_KEY] === WRAPPER_VERSION &&
+    typeof value === 'string' &&
+    (version === undefined || typeof version === 'number') &&
+    (expiresAt === undefined || typeof expiresAt === 'number')
+  );
+}
+
+export function wrapItem({ value, version, expiresAt }: WrappedItem) {
+  return version === undefined && expiresAt === undefined
+    ? value
+    : JSON.stringify({
+        [WRAPPER_KEY]: WRAPPER_VERSION,
+        value,
+        version,
+        expiresAt,
+      });
+}
+
+/* ----------- Items stored without a wrapper are taken as they are ----------- */
+export function unwrapItem(item: string): WrappedItem {
+  try {
+    const parsed = JSON.parse(item);
+    if (isWrappedItem(parsed)) {
+      const { value, version, expiresAt } = parsed;
+      return { value, version, expiresAt };
+    }
+  } catch (error) {
+    // Not a wrapped item.
+  }
+  return { value: item };
+}
+
+export function isExpiredItem(item: WrappedItem) {
+  return item.expiresAt !== undefined && Date.now() >= item.expiresAt;
+}
+
+/* ---- Parse a stored item, migrating its value when it has another version ---- */
+export function readItem<T>(
+  item: string,
+  { serializer, version, migrate }: ReadItemOptions<T>
+): ReadItem<T> | null {
+  // Unwrapped whatever the options, as another reader may have set a version or an expiry.
+  const stored = unwrapItem(item);
+  // An expired value counts as absent.
+  if (isExpiredItem(stored)) return null;
+
+  const storedVersion = stored.version || 0;
+  const { expiresAt } = stored;
+  const value = serializer.parse(stored.value);
+
+  if (version === undefined || storedVersion === version || !migrate) {
+    return { value, expiresAt };
+  }
+
+  const migrated = migrate(value, storedVersion);
+  return {
+    value: migrated,
+    expiresAt,
+    migratedItem: wrapItem({
+      value: serializer.stringify(migrated),
+      version,
+      expiresAt,
+    }),
+  };
+}
+
+export function isQuotaExceededError(error: unknown) {
+  const name = error && (error as { name?: unknown }).name;
+  // Firefox used to name it differently.
+  return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED';
+}
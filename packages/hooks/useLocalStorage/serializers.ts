@@ -0,0 +1,111 @@
+import type { Serializer } from './types';
+
+type TaggedValue = {
+  $type: string;
+  value?: unknown;
+};
+
+export const jsonSerializer: Serializer = {
+  stringify: (value) => JSON.stringify(value),
+  parse: (item) => JSON.parse(item),
+};
+
+/**
+ * Stores strings as they are, for values written by other code or read by it.
+ */
+export const rawSerializer: Serializer<string> = {
+  stringify: (value) => value,
+  parse: (item) => item,
+};
+
+/* ---------- Replace the values JSON can't represent with tagged objects ---------- */
+function encode(value: unknown): unknown {
+  if (value === undefined) return { $type: 'undefined' };
+  if (typeof value === 'bigint')
+    return { $type: 'bigint', value: String(value) };
+  if (typeof value === 'number') {
+    // NaN, the infinities and -0 don't survive JSON.
+    return isFinite(value) && !Object.is(value, -0)
+      ? value
+      : { $type: 'number', value: Object.is(value, -0) ? '-0' : String(value) };
+  }
+  if (value === null || typeof value !== 'object') return value;
+
+  if (value instanceof Date) {
+    const time = value.getTime();
+    return { $type: 'Date', value: isNaN(time) ? null : time };
+  }
+  if (value instanceof RegExp) {
+    return { $type: 'RegExp', value: [value.source, value.flags] };
+  }
+  if (value instanceof Map) {
+    const entries: unknown[] = [];
+    value.forEach((entry, key) => entries.push([encode(key), encode(entry)]));
+    return { $type: 'Map', value: entries };
+  }
+  if (value instanceof Set) {
+    const values: unknown[] = [];
+    value.forEach((entry) => values.push(encode(entry)));
+    return { $type: 'Set', value: values };
+  }
+  if (Array.isArray(value)) return value.map(encode);
+
+  const object: Record<string, unknown> = {};
+  Object.keys(value).forEach((key) => {
+    object[key] = encode((value as Record<string, unknown>)[key]);
+  });
+  // Keep an object that happens to have a `$type` key from being read as a tag.
+  return '$type' in object ? { $type: 'object', value: object } : object;
+}
+
+function decodeObject(object: Record<string, unknown>) {
+  const decoded: Record<string, unknown> = {};
+  Object.keys(object).forEach((key) => {
+    decoded[key] = decode(object[key]);
+  });
+  return decoded;
+}
+
+function decode(value: unknown): unknown {
+  if (value === null || typeof value !== 'object') return value;
+  if (Array.isArray(value)) return value.map(decode);
+  if (!('$type' in value))
+    return decodeObject(value as Record<string, unknown>);
+
+  const tagged = value as TaggedValue;
+  switch (tagged.$type) {
+    case 'undefined':
+      return undefined;
+    case 'bigint':
+      return BigInt(tagged.value as string);
+    case 'number':
+      return Number(tagged.value);
+    case 'Date':
+      return new Date(tagged.value === null ? NaN : (tagged.value as number));
+    case 'RegExp': {
+      const [source, flags] = tagged.value as [string, string];
+      return new RegExp(source, flags);
+    }
+    case 'Map':
+      return new Map(
+        (tagged.value as [unknown, unknown][]).map(
+          ([key, entry]) => [decode(key), decode(entry)] as [unknown, unknown]
+        )
+      );
+    case 'Set':
+      return new Set((tagged.value as unknown[]).map(decode));
+    case 'object':
+      return decodeObject(tagged.value as Record<string, unknown>);
+    default:
+      throw new TypeError(`Unknown tagged type "${tagged.$type}".`);
+  }
+}
+
+/**
+ * Stores JSON in which `Date`, `Map`, `Set`, `BigInt`, `RegExp`, `undefined` and the
+ * numbers JSON can't represent are tagged, so they come back as they were set.
+ */
+export const taggedSerializer: Serializer = {
+  stringify: (value) => JSON.stringify(encode(value)),
+  parse: (item) => decode(JSON.parse(item)),
+};
@@ -0,0 +1,177 @@
+/**
+ * Turns values into the strings that are stored, and back.
+ */
+export type Serializer<T = any> = {
+  stringify: (value: T) => string;
+  parse: (item: string) => T;
+};
+
+/**
+ * Where the items are stored. `getItem`, `setItem` and `removeItem` may all return promises,
+ * like React Native's AsyncStorage does.
+ */
+export type StorageAdapter = {
+  getItem: (key: string) => string | null | PromiseLike<string | null>;
+  setItem: (key: string, item: string) => void | PromiseLike<void>;
+  removeItem: (key: string) => void | PromiseLike<void>;
+  /**
+   * Listens to changes made outside the page, e.g. in other tabs. The listener receives the
+   * key that changed, or `null` when every key may have changed.
+   */
+  subscribe?: (listener: (key: string | null) => void) => () => void;
+};
+
+export type CookieAdapterOptions = {
+  /**
+   * Defaults to `/`.
+   */
+  path?: string;
+  domain?: string;
+  /**
+   * The lifetime of the cookies in seconds. Defaults to a year.
+   */
+  maxAge?: number;
+  sameSite?: 'strict' | 'lax' | 'none';
+  secure?: boolean;
+};
+
+export type IndexedDBAdapterOptions = {
+  /**
+   * Defaults to `reactutils`.
+   */
+  databaseName?: string;
+  /**
+   * Defaults to `storage`.
+   */
+  storeName?: string;
+};
+
+/**
+ * Evicts the least recently used keys of a namespace. Every hook with the same namespace
+ * shares the same list of keys, which is stored under `<namespace>:lru`.
+ */
+export type EvictionOptions = {
+  namespace: string;
+  /**
+   * The number of keys the namespace may hold. When a key is used past it, the least
+   * recently used keys are removed. Either way, keys are removed to make room when the
+   * storage is full.
+   */
+  maxKeys?: number;
+};
+
+export type UseLocalStorageOptions<T> = {
+  /**
+   * Where the value is stored. Defaults to `localStorageAdapter`.
+   */
+  storage?: StorageAdapter;
+  /**
+   * How values are stored. Defaults to `jsonSerializer`.
+   */
+  serializer?: Serializer;
+  /**
+   * Checks a stored value after it was parsed and migrated. When it returns `false`, the
+   * hook returns `initialValue` instead.
+   */
+  validate?: (value: unknown) => boolean;
+  /**
+   * The version of the shape of the value. It's stored along with the value, and a stored
+   * value with another version goes through `migrate` first.
+   */
+  version?: number;
+  /**
+   * Upgrades a value stored with another version. Values stored without a version have the
+   * version `0`. The migrated value is stored again with the current version.
+   */
+  migrate?: (oldValue: any, oldVersion: number) => T;
+  /**
+   * The time in milliseconds a value is kept after it was set. An expired value counts as
+   * absent and is removed from the storage.
+   */
+  expiresIn?: number;
+  /**
+   * Adds the key to a namespace in which the least recently used keys are evicted. A key is
+   * used when a hook reading it mounts and when it's set. It needs a storage adapter that
+   * returns its items synchronously, and calls `onError` otherwise.
+   */
+  eviction?: EvictionOptions;
+  /**
+   * Called when reading, parsing or writing the value fails, e.g. with a
+   * `QuotaExceededError` when the storage is full. Defaults to `console.error`.
+   */
+  onError?: (error: unknown) => void;
+  /**
+   * Return the server snapshot until the component mounts, so the first render matches the
+   * markup rendered on the server. Components mounting after the page hydrated read the
+   * stored value right away.
+   */
+  ssr?: boolean;
+  /**
+   * The value rendered on the server and, with `ssr`, until the component mounts. It's read
+   * once per key. Defaults to `initialValue`.
+   */
+  getServerSnapshot?: () => T;
+};
+
+export type UseLocalStorageStatus = {
+  /**
+   * `true` while the value of an async adapter is being read. The hook returns the last
+   * value read, or `initialValue`, in the meantime.
+   */
+  isLoading: boolean;
+  /**
+   * `true` once the hook returns the stored value: on the client, and with `ssr` once the
+   * component mounted. `false` on the server.
+   */
+  isHydrated: boolean;
+};
+
+export type StorageStoreOptions<Schema extends object> = Pick<
+  UseLocalStorageOptions<unknown>,
+  'storage' | 'serializer' | 'onError' | 'ssr'
+> & {
+  /**
+   * Prefixes the keys of the store, which are stored as `<namespace>:<key>`.
+   */
+  namespace: string;
+  /**
+   * The value of every key while it isn't stored. The keys of the store are its keys.
+   */
+  defaults: Schema;
+};
+
+export type StorageStore<Schema extends object> = {
+  /**
+   * Works like `useLocalStorage` for a key of the store.
+   */
+  useStoredValue: <K extends keyof Schema & string>(
+    key: K
+  ) => readonly [
+    Schema[K],
+    (value: Schema[K] | ((val: Schema[K]) => Schema[K])) => void,
+    UseLocalStorageStatus
+  ];
+  /**
+   * Read a key outside a component. Returns the default while it isn't stored.
+   */
+  get: <K extends keyof Schema & string>(key: K) => Schema[K];
+  /**
+   * Write a key outside a component. Every hook reading it updates.
+   */
+  set: <K extends keyof Schema & string>(
+    key: K,
+    value: Schema[K] | ((val: Schema[K]) => Schema[K])
+  ) => void;
+  /**
+   * Remove a key, so hooks reading it return its default.
+   */
+  remove: (key: keyof Schema & string) => void;
+  /**
+   * Remove every key of the store.
+   */
+  clear: () => void;
+  /**
+   * The keys of the store that are stored.
+   */
+  keys: () => (keyof Schema & string)[];
+};
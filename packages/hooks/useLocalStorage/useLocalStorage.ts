@@ -1,41 +1,288 @@
-import { useState } from 'react';
-
-function useLocalStorage<T>(key: string, initialValue: T) {
-  // State to store our value
-  // Pass initial state function to useState so logic is only executed once
-  const [storedValue, setStoredValue] = useState<T>(() => {
-    if (typeof window === 'undefined') {
-      return initialValue;
-    }
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import { localStorageAdapter } from './adapters';
+import { AdapterStore, getAdapterStore } from './adapterStore';
+import { evictOldest, touchKey } from './eviction';
+import { isQuotaExceededError, readItem, wrapItem } from './items';
+import { jsonSerializer } from './serializers';
+import { UseLocalStorageOptions, UseLocalStorageStatus } from './types';
+import { useSyncExternalStore } from './useSyncExternalStore';
+
+type CachedValue<T> = {
+  store: AdapterStore;
+  key: string;
+  item: string | null;
+  value: T;
+  expiresAt?: number;
+};
+
+// Timers can't wait longer than about 24 days.
+const MAX_TIMEOUT = 2147483647;
+
+// Set once a hook mounted, after which the page is hydrated and storage can be read at once.
+let hasHydrated = false;
+
+/**
+ * @example
+ *```ts
+ *import React from 'react';
+ *import useLocalStorage, {
+ *  createIndexedDBAdapter,
+ *  taggedSerializer,
+ *} from '@reactutils/use-local-storage';
+ *
+ *function ThemeToggle() {
+ *  // Every component using the "theme" key, in this tab or another one, updates together.
+ *  const [theme, setTheme] = useLocalStorage('theme', 'light');
+ *
+ *  return (
+ *    <button onClick={() => setTheme((current) => (current === 'light' ? 'dark' : 'light'))}>
+ *      {theme}
+ *    </button>
+ *  );
+ *}
+ *
+ *function Filters() {
+ *  // A Set survives the round trip, and the filters saved as an array are upgraded.
+ *  const [filters, setFilters] = useLocalStorage('filters', new Set<string>(), {
+ *    serializer: taggedSerializer,
+ *    validate: (value) => value instanceof Set,
+ *    version: 1,
+ *    migrate: (oldValue: string[]) => new Set(oldValue),
+ *  });
+ *
+ *  return <FilterList selected={filters} onChange={setFilters} />;
+ *}
+ *
+ *const draftsStorage = createIndexedDBAdapter({ databaseName: 'drafts' });
+ *
+ *function Draft({ id }) {
+ *  const [draft, setDraft, { isLoading }] = useLocalStorage(`draft-${id}`, '', {
+ *    storage: draftsStorage,
+ *  });
+ *
+ *  if (isLoading) return <Spinner />;
+ *  return <textarea value={draft} onChange={(e) => setDraft(e.target.value)} />;
+ *}
+ *
+ *function ThemeProvider({ children }) {
+ *  // The server renders the light theme, and so does hydration before the stored one.
+ *  const [theme, , { isHydrated }] = useLocalStorage('theme', 'light', { ssr: true });
+ *
+ *  return (
+ *    <div className={theme} data-ready={isHydrated}>
+ *      {children}
+ *    </div>
+ *  );
+ *}
+ *
+ *function useCachedUser(id) {
+ *  // Keep users for an hour, and no more than the 50 last used.
+ *  return useLocalStorage(`user-${id}`, null, {
+ *    expiresIn: 60 * 60 * 1000,
+ *    eviction: { namespace: 'users', maxKeys: 50 },
+ *    onError: (error) => reportToSentry(error),
+ *  });
+ *}
+ *```
+ */
+function useLocalStorage<T>(
+  key: string,
+  initialValue: T,
+  options?: UseLocalStorageOptions<T>
+): readonly [T, (value: T | ((val: T) => T)) => void, UseLocalStorageStatus] {
+  const store = getAdapterStore(options?.storage || localStorageAdapter);
+  const namespace = options?.eviction?.namespace;
+  const ssr = !!options?.ssr;
+  // The last item read and its parsed value, so the same item always gives the same value.
+  const cacheRef = useRef<CachedValue<T> | null>(null);
+  const optionsRef = useRef(options);
+
+  /* -------------- Update the reference to the options on change -------------- */
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  const reportError = useCallback((error: unknown) => {
+    const { onError = console.error } = optionsRef.current || {};
+    onError(error);
+  }, []);
+
+  const reportAsyncError = useCallback((result: void | PromiseLike<void>) => {
+    if (result) result.then(undefined, reportError);
+  }, []);
+
+  /* ---- Read the stored item, and parse it again only when it changed or expired ---- */
+  const getSnapshot = useCallback(() => {
+    const {
+      serializer = jsonSerializer,
+      validate,
+      version,
+      migrate,
+    } = optionsRef.current || {};
+    let item: string | null = null;
     try {
-      // Get from local storage by key
-      const item = window.localStorage.getItem(key);
-      // Parse stored json or if none return initialValue
-      return item ? JSON.parse(item) : initialValue;
+      item = store.getItem(key, reportError);
     } catch (error) {
-      // If error also return initialValue
-      console.error(error);
-      return initialValue;
+      reportError(error);
     }
-  });
-  // Return a wrapped version of useState's setter function that persists the new value to localStorage.
-  const setValue = (value: T | ((val: T) => T)) => {
+
+    const cache = cacheRef.current;
+    if (
+      cache &&
+      cache.store === store &&
+      cache.key === key &&
+      cache.item === item &&
+      (cache.expiresAt === undefined || Date.now() < cache.expiresAt)
+    ) {
+      return cache.value;
+    }
+
+    let value = initialValue;
+    let storedItem = item;
+    let expiresAt: number | undefined;
+
     try {
-      // Allow value to be a function so we have same API as useState
-      const valueToStore =
-        value instanceof Function ? value(storedValue) : value;
-      // Save state
-      setStoredValue(valueToStore);
-      // Save to local storage
-      if (typeof window !== 'undefined') {
-        window.localStorage.setItem(key, JSON.stringify(valueToStore));
+      if (item !== null) {
+        const stored = readItem(item, { serializer, version, migrate });
+
+        if (!stored) {
+          // An expired value is removed.
+          storedItem = null;
+          reportAsyncError(store.removeItem(key));
+        } else {
+          expiresAt = stored.expiresAt;
+          if (stored.migratedItem !== undefined) {
+            // Store the migrated value, so it's only migrated once.
+            storedItem = stored.migratedItem;
+            reportAsyncError(store.setItem(key, storedItem));
+          }
+          // Fall back to initialValue when the stored value doesn't have the expected shape.
+          if (!validate || validate(stored.value)) value = stored.value;
+        }
       }
     } catch (error) {
-      // A more advanced implementation would handle the error case
-      console.error(error);
+      reportError(error);
     }
-  };
-  return [storedValue, setValue] as const;
+    cacheRef.current = { store, key, item: storedItem, value, expiresAt };
+    return value;
+  }, [store, key]);
+
+  const serverSnapshot = useMemo(
+    () =>
+      options?.getServerSnapshot ? options.getServerSnapshot() : initialValue,
+    [store, key]
+  );
+  const getServerSnapshot = useCallback(() => serverSnapshot, [serverSnapshot]);
+  const [isHydrated, setIsHydrated] = useState(
+    () => typeof window !== 'undefined' && (!ssr || hasHydrated)
+  );
+
+  /* -------- Switch from the server snapshot to the stored value once mounted -------- */
+  useEffect(() => {
+    hasHydrated = true;
+    setIsHydrated(true);
+  }, []);
+
+  const subscribeToKey = useCallback(
+    (onStoreChange: () => void) => store.subscribe(key, onStoreChange),
+    [store, key]
+  );
+
+  const storedValue = useSyncExternalStore(
+    subscribeToKey,
+    getSnapshot,
+    getServerSnapshot
+  );
+  const isLoading = useSyncExternalStore(
+    subscribeToKey,
+    () => store.isLoading(key),
+    () => false
+  );
+  const expiresAt = cacheRef.current ? cacheRef.current.expiresAt : undefined;
+
+  /* ----------- Update every hook reading the key once the value expires ----------- */
+  useEffect(() => {
+    if (expiresAt === undefined) return;
+
+    const timerId = setTimeout(
+      () => store.notify(key),
+      Math.min(Math.max(expiresAt - Date.now(), 0), MAX_TIMEOUT)
+    );
+    return () => clearTimeout(timerId);
+  }, [store, key, expiresAt]);
+
+  /* ------------- Mark the key as used whenever a hook reading it mounts ------------- */
+  useEffect(() => {
+    const { eviction } = optionsRef.current || {};
+    if (!eviction) return;
+
+    try {
+      touchKey(store, eviction, key, reportError);
+    } catch (error) {
+      reportError(error);
+    }
+  }, [store, key, namespace]);
+
+  /* ------ Persist the new value and update every hook reading the same key ------ */
+  const setValue = useCallback(
+    (value: T | ((val: T) => T)) => {
+      const {
+        serializer = jsonSerializer,
+        version,
+        expiresIn,
+        eviction,
+      } = optionsRef.current || {};
+
+      try {
+        // Allow value to be a function so we have same API as useState
+        const valueToStore =
+          value instanceof Function ? value(getSnapshot()) : value;
+        const valueExpiresAt =
+          expiresIn === undefined ? undefined : Date.now() + expiresIn;
+        const item = wrapItem({
+          value: serializer.stringify(valueToStore),
+          version,
+          expiresAt: valueExpiresAt,
+        });
+
+        for (;;) {
+          try {
+            reportAsyncError(store.setItem(key, item));
+            break;
+          } catch (error) {
+            // Make room in the namespace until the item fits.
+            if (
+              !eviction ||
+              !isQuotaExceededError(error) ||
+              !evictOldest(store, eviction, key, reportError)
+            ) {
+              throw error;
+            }
+          }
+        }
+        // Keep the value that was set rather than a parsed copy of it.
+        cacheRef.current = {
+          store,
+          key,
+          item,
+          value: valueToStore,
+          expiresAt: valueExpiresAt,
+        };
+        if (eviction) touchKey(store, eviction, key, reportError);
+      } catch (error) {
+        reportError(error);
+      }
+      store.notify(key);
+    },
+    [store, key, getSnapshot]
+  );
+
+  return [
+    isHydrated ? storedValue : serverSnapshot,
+    setValue,
+    { isLoading, isHydrated },
+  ] as const;
 }
 
 export default useLocalStorage;
@@ -0,0 +1,26 @@
+import * as React from 'react';
+
+type Subscribe = (onStoreChange: () => void) => () => void;
+
+/* ------ Before React 18, re-render from an effect whenever the store changes ------ */
+function useSubscription<T>(subscribe: Subscribe, getSnapshot: () => T): T {
+  const [, forceRender] = React.useReducer((count: number) => count + 1, 0);
+  const snapshot = getSnapshot();
+
+  React.useEffect(() => {
+    const unsubscribe = subscribe(() => forceRender());
+    // Catch up with a change that happened between rendering and subscribing.
+    if (getSnapshot() !== snapshot) forceRender();
+
+    return unsubscribe;
+  }, [subscribe]);
+
+  return snapshot;
+}
+
+// Read through the namespace so bundlers don't warn about the export missing before React 18.
+export const useSyncExternalStore: <T>(
+  subscribe: Subscribe,
+  getSnapshot: () => T,
+  getServerSnapshot?: () => T
+) => T = React.useSyncExternalStore || useSubscription;
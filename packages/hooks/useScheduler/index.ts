@@ -0,0 +1,9 @@
+export { default, SchedulerProvider } from './useScheduler';
+export { realTimeScheduler, createVirtualScheduler } from './scheduler';
+export type {
+  Scheduler,
+  SchedulingMode,
+  TaskHandle,
+  VirtualScheduler,
+  VirtualSchedulerOptions,
+} from './types';
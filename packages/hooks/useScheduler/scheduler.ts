@@ -0,0 +1,176 @@
+import type {
+  Scheduler,
+  SchedulingMode,
+  TaskHandle,
+  VirtualScheduler,
+  VirtualSchedulerOptions,
+} from './types';
+
+type VirtualTask = {
+  handle: TaskHandle;
+  time: number;
+  callback: () => void;
+};
+
+/* ------- Cancel functions for the real timers, keyed by their handles ------- */
+const realTimers = new Map<TaskHandle, () => void>();
+let lastRealHandle = 0;
+
+// The longest an idle callback waits for the browser to be idle before it runs anyway.
+const IDLE_TIMEOUT = 1000;
+
+function resolveMode(delay?: number, mode?: SchedulingMode): SchedulingMode {
+  return mode || (delay === undefined ? 'animationFrame' : 'timeout');
+}
+
+/* ------------ Start the last stage of a real timer for every mode ------------ */
+const startRealTimer: Record<
+  SchedulingMode,
+  (handle: TaskHandle, run: () => void) => void
+> = {
+  timeout: (handle, run) => {
+    const timeoutId = setTimeout(run, 0);
+    realTimers.set(handle, () => clearTimeout(timeoutId));
+  },
+  animationFrame: (handle, run) => {
+    if (typeof requestAnimationFrame !== 'function') {
+      return startRealTimer.timeout(handle, run);
+    }
+    const frameId = requestAnimationFrame(run);
+    realTimers.set(handle, () => cancelAnimationFrame(frameId));
+  },
+  idle: (handle, run) => {
+    if (typeof requestIdleCallback !== 'function') {
+      return startRealTimer.timeout(handle, run);
+    }
+    const idleId = requestIdleCallback(run, { timeout: IDLE_TIMEOUT });
+    realTimers.set(handle, () => cancelIdleCallback(idleId));
+  },
+  microtask: (handle, run) => {
+    let cancelled = false;
+    Promise.resolve().then(() => {
+      if (!cancelled) run();
+    });
+    realTimers.set(handle, () => {
+      cancelled = true;
+    });
+  },
+};
+
+/**
+ * The default scheduler, backed by `Date.now`, `setTimeout`, `requestAnimationFrame`,
+ * `requestIdleCallback` and microtasks. Falls back to `setTimeout` for frames and idle
+ * callbacks when their browser APIs are not available.
+ */
+export const realTimeScheduler: Scheduler = {
+  now: () => Date.now(),
+  schedule: (callback, delay, mode) => {
+    const handle = ++lastRealHandle;
+    const schedulingMode = resolveMode(delay, mode);
+    const run = () => {
+      realTimers.delete(handle);
+      callback();
+    };
+
+    if (
+      schedulingMode === 'timeout' ||
+      (schedulingMode !== 'microtask' && delay)
+    ) {
+      // Wait for the delay first, then for the frame or the idle period.
+      const timeoutId = setTimeout(
+        schedulingMode === 'timeout'
+          ? run
+          : () => startRealTimer[schedulingMode](handle, run),
+        delay || 0
+      );
+      realTimers.set(handle, () => clearTimeout(timeoutId));
+    } else {
+      startRealTimer[schedulingMode](handle, run);
+    }
+
+    return handle;
+  },
+  cancel: (handle) => {
+    const cancel = realTimers.get(handle);
+    realTimers.delete(handle);
+    cancel?.();
+  },
+};
+
+/**
+ * Create a scheduler that runs on virtual time. Nothing runs until the clock is advanced
+ * with `advanceBy`, `advanceTo`, `step` or `runAll`. Callbacks due at the same time run
+ * in the order they were scheduled.
+ *
+ * @example
+ *```ts
+ *const scheduler = createVirtualScheduler();
+ *scheduler.schedule(() => console.log('tick'), 100);
+ *
+ *scheduler.advanceBy(99); // nothing happens
+ *scheduler.advanceBy(1); // logs "tick"
+ *```
+ */
+export function createVirtualScheduler(
+  options?: VirtualSchedulerOptions
+): VirtualScheduler {
+  const { startTime = 0, frameDuration = 16, idleDuration = 0 } = options || {};
+  let currentTime = startTime;
+  let lastHandle = 0;
+  let tasks: VirtualTask[] = [];
+
+  /* ------ Remove and run the earliest task that is due by the given time ----- */
+  const runNext = (until: number) => {
+    const task = tasks[0];
+    if (!task || task.time > until) return false;
+
+    tasks = tasks.slice(1);
+    currentTime = Math.max(currentTime, task.time);
+    task.callback();
+    return true;
+  };
+
+  const scheduler: VirtualScheduler = {
+    now: () => currentTime,
+    schedule: (callback, delay, mode) => {
+      const handle = ++lastHandle;
+      const schedulingMode = resolveMode(delay, mode);
+      const wait = schedulingMode === 'microtask' ? 0 : Math.max(delay || 0, 0);
+      const time =
+        currentTime +
+        wait +
+        (schedulingMode === 'animationFrame'
+          ? frameDuration
+          : schedulingMode === 'idle'
+          ? idleDuration
+          : 0);
+
+      // Insert after every task due at the same time to keep the order stable.
+      const index = tasks.filter((task) => task.time <= time).length;
+      tasks = [
+        ...tasks.slice(0, index),
+        { handle, time, callback },
+        ...tasks.slice(index),
+      ];
+
+      return handle;
+    },
+    cancel: (handle) => {
+      tasks = tasks.filter((task) => task.handle !== handle);
+    },
+    advanceTo: (time) => {
+      while (runNext(time));
+      currentTime = Math.max(currentTime, time);
+    },
+    advanceBy: (ms) => {
+      scheduler.advanceTo(currentTime + ms);
+    },
+    step: () => (tasks.length ? runNext(tasks[0].time) : false),
+    runAll: (limit = 1000) => {
+      for (let i = 0; i < limit && scheduler.step(); i++);
+    },
+    pendingCount: () => tasks.length,
+  };
+
+  return scheduler;
+}
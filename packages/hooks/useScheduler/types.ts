@@ -0,0 +1,90 @@
+/**
+ * An opaque handle identifying a scheduled callback. Handles are never `0`.
+ */
+export type TaskHandle = number;
+
+/**
+ * How a scheduled callback waits for its turn:
+ * - `timeout`: runs after the delay.
+ * - `animationFrame`: runs on the first animation frame after the delay.
+ * - `idle`: runs when the browser is idle after the delay, but no more than a second later,
+ *   or after the delay alone where `requestIdleCallback` is not available.
+ * - `microtask`: runs in a microtask right after the current task. The delay is ignored.
+ */
+export type SchedulingMode =
+  | 'timeout'
+  | 'animationFrame'
+  | 'idle'
+  | 'microtask';
+
+/**
+ * A source of time and timers used by the timing hooks. Providing a custom scheduler makes
+ * it possible to run the hooks against virtual time in tests or replays.
+ */
+export interface Scheduler {
+  /**
+   * Get the current time in milliseconds.
+   */
+  now: () => number;
+  /**
+   * Run a callback after the given delay, using the given scheduling mode. Without a mode,
+   * the callback runs on the next animation frame when `delay` is `undefined`, and after
+   * a timeout otherwise.
+   * @returns {TaskHandle} A handle that can be passed to `cancel`.
+   */
+  schedule: (
+    callback: () => void,
+    delay?: number,
+    mode?: SchedulingMode
+  ) => TaskHandle;
+  /**
+   * Cancel a scheduled callback. Cancelling a handle that already ran does nothing.
+   */
+  cancel: (handle: TaskHandle) => void;
+}
+
+/**
+ * A scheduler whose clock only moves when it is advanced manually.
+ */
+export interface VirtualScheduler extends Scheduler {
+  /**
+   * Move the clock forward by `ms`, running every callback that becomes due in order.
+   */
+  advanceBy: (ms: number) => void;
+  /**
+   * Move the clock forward to `time`, running every callback that becomes due in order.
+   */
+  advanceTo: (time: number) => void;
+  /**
+   * Move the clock to the next scheduled callback and run it.
+   * @returns {boolean} `false` if there was nothing scheduled.
+   */
+  step: () => boolean;
+  /**
+   * Keep stepping until nothing is scheduled. Stops after `limit` steps to guard against
+   * callbacks that keep rescheduling themselves.
+   */
+  runAll: (limit?: number) => void;
+  /**
+   * Get the number of callbacks that are still scheduled.
+   */
+  pendingCount: () => number;
+}
+
+/**
+ * Options for creating a virtual scheduler.
+ */
+export interface VirtualSchedulerOptions {
+  /**
+   * The time the virtual clock starts at.
+   */
+  startTime?: number;
+  /**
+   * The length of an animation frame, added to the delay of `animationFrame` callbacks.
+   */
+  frameDuration?: number;
+  /**
+   * The time until the browser is considered idle, added to the delay of `idle` callbacks.
+   */
+  idleDuration?: number;
+}
@@ -0,0 +1,48 @@
+import { createContext, useContext, ReactNode } from 'react';
+
+import { realTimeScheduler } from './scheduler';
+import type { Scheduler } from './types';
+
+const SchedulerContext = createContext<Scheduler>(realTimeScheduler);
+
+/**
+ * Provide a scheduler to every timing hook in the subtree.
+ *
+ * @example
+ *```ts
+ *import { SchedulerProvider, createVirtualScheduler } from '@reactutils/use-scheduler';
+ *
+ *const scheduler = createVirtualScheduler();
+ *
+ *render(
+ *  <SchedulerProvider scheduler={scheduler}>
+ *    <App />
+ *  </SchedulerProvider>
+ *);
+ *
+ *scheduler.advanceBy(1000);
+ *```
+ */
+export function SchedulerProvider({
+  scheduler,
+  children,
+}: {
+  scheduler: Scheduler;
+  children?: ReactNode;
+}) {
+  return (
+    <SchedulerContext.Provider value={scheduler}>
+      {children}
+    </SchedulerContext.Provider>
+  );
+}
+
+/**
+ * Get the scheduler a timing hook should use: the one passed in its options, otherwise the
+ * closest `SchedulerProvider`, otherwise the real-time scheduler.
+ */
+export default function useScheduler(scheduler?: Scheduler): Scheduler {
+  const contextScheduler = useContext(SchedulerContext);
+
+  return scheduler || contextScheduler;
+}